@@ -0,0 +1,3 @@
+ALTER TABLE "workflow_actions" ADD COLUMN "execution_result" jsonb;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "execution_error" text;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "executed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "workflow_action_executions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_id" uuid NOT NULL,
+	"attempt" integer NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"triggered_by" varchar(255) NOT NULL,
+	"result" jsonb,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_action_executions" ADD CONSTRAINT "workflow_action_executions_action_id_workflow_actions_id_fk" FOREIGN KEY ("action_id") REFERENCES "public"."workflow_actions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "workflow_action_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_id" uuid NOT NULL,
+	"checker_id" varchar(255) NOT NULL,
+	"decision" varchar(20) NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workflow_action_reviews_action_checker_unique" UNIQUE("action_id","checker_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "required_approvals" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ADD CONSTRAINT "workflow_action_reviews_action_id_workflow_actions_id_fk" FOREIGN KEY ("action_id") REFERENCES "public"."workflow_actions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "workflow_definitions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_type" varchar(100) NOT NULL,
+	"description" text,
+	"initial_state" varchar(20) NOT NULL,
+	"states" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workflow_definitions_action_type_unique" UNIQUE("action_type")
+);
+--> statement-breakpoint
+CREATE TABLE "workflow_transitions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"definition_id" uuid NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"from_state" varchar(20) NOT NULL,
+	"to_state" varchar(20) NOT NULL,
+	"allowed_role" varchar(20) NOT NULL,
+	"triggers_execution" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workflow_transitions_definition_name_from_unique" UNIQUE("definition_id","name","from_state")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_transitions" ADD CONSTRAINT "workflow_transitions_definition_id_workflow_definitions_id_fk" FOREIGN KEY ("definition_id") REFERENCES "public"."workflow_definitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "workflow_definitions" ("id", "action_type", "description", "initial_state", "states") VALUES
+	('3f1c2a9e-5b7d-4c1e-9a2f-6d8e0b4c7a15'::uuid, 'default', 'Maker submits, checkers approve or reject, approval executes the handler', 'pending', '["pending","approved","rejected","executing","executed","execution_failed"]'::jsonb);
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution") VALUES
+	('3f1c2a9e-5b7d-4c1e-9a2f-6d8e0b4c7a15'::uuid, 'approve', 'pending', 'approved', 'CHECKER', true),
+	('3f1c2a9e-5b7d-4c1e-9a2f-6d8e0b4c7a15'::uuid, 'reject', 'pending', 'rejected', 'CHECKER', false),
+	('3f1c2a9e-5b7d-4c1e-9a2f-6d8e0b4c7a15'::uuid, 'retry_execution', 'execution_failed', 'approved', 'CHECKER', true);
@@ -0,0 +1,6 @@
+ALTER TABLE "workflow_actions" ADD COLUMN "withdrawn_at" timestamp;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "withdrawal_reason" text;--> statement-breakpoint
+UPDATE "workflow_definitions" SET "states" = "states" || '["withdrawn"]'::jsonb, "updated_at" = now() WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'withdraw', 'pending', 'withdrawn', 'MAKER', false FROM "workflow_definitions" WHERE "action_type" = 'default';
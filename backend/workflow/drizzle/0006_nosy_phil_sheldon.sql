@@ -0,0 +1,27 @@
+CREATE TABLE "workflow_action_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_id" uuid NOT NULL,
+	"revision" integer NOT NULL,
+	"payload" jsonb NOT NULL,
+	"changes" jsonb NOT NULL,
+	"submitted_by" varchar(255) NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workflow_action_revisions_action_revision_unique" UNIQUE("action_id","revision")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" DROP CONSTRAINT "workflow_action_reviews_action_checker_unique";--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_action_revisions" ADD CONSTRAINT "workflow_action_revisions_action_id_workflow_actions_id_fk" FOREIGN KEY ("action_id") REFERENCES "public"."workflow_actions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ADD CONSTRAINT "workflow_action_reviews_action_revision_checker_unique" UNIQUE("action_id","revision","checker_id");--> statement-breakpoint
+INSERT INTO "workflow_action_revisions" ("action_id", "revision", "payload", "changes", "submitted_by", "created_at")
+SELECT "id", 1, "payload", '[]'::jsonb, "maker_id", "created_at" FROM "workflow_actions";
+--> statement-breakpoint
+UPDATE "workflow_definitions" SET "states" = "states" || '["changes_requested"]'::jsonb, "updated_at" = now() WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'request_changes', 'pending', 'changes_requested', 'CHECKER', false FROM "workflow_definitions" WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'resubmit', 'changes_requested', 'pending', 'MAKER', false FROM "workflow_definitions" WHERE "action_type" = 'default';
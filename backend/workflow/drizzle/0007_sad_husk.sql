@@ -0,0 +1,31 @@
+CREATE TABLE "workflow_action_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_id" uuid NOT NULL,
+	"event_type" varchar(50) NOT NULL,
+	"from_status" varchar(20),
+	"to_status" varchar(20),
+	"actor_id" varchar(255) NOT NULL,
+	"actor_role" varchar(20) NOT NULL,
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"before" jsonb,
+	"after" jsonb,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_action_events" ADD CONSTRAINT "workflow_action_events_action_id_workflow_actions_id_fk" FOREIGN KEY ("action_id") REFERENCES "public"."workflow_actions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_action_events_action_idx" ON "workflow_action_events" USING btree ("action_id","created_at");--> statement-breakpoint
+CREATE FUNCTION "workflow_action_events_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'workflow_action_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER "workflow_action_events_no_update_or_delete"
+BEFORE UPDATE OR DELETE ON "workflow_action_events"
+FOR EACH ROW EXECUTE FUNCTION "workflow_action_events_append_only"();
+--> statement-breakpoint
+CREATE TRIGGER "workflow_action_events_no_truncate"
+BEFORE TRUNCATE ON "workflow_action_events"
+FOR EACH STATEMENT EXECUTE FUNCTION "workflow_action_events_append_only"();
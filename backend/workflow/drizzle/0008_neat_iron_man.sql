@@ -0,0 +1,4 @@
+ALTER TABLE "workflow_action_events" ADD COLUMN "sequence" bigserial NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_action_events" ADD COLUMN "previous_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "workflow_action_events" ADD COLUMN "hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "workflow_action_events" ADD CONSTRAINT "workflow_action_events_sequence_unique" UNIQUE("sequence");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "workflow_actions" ADD COLUMN "payload_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ADD COLUMN "payload_hash" varchar(64);
\ No newline at end of file
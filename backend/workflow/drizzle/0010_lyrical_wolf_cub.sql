@@ -0,0 +1,24 @@
+-- Maker/checker ids used to be free text from the request body; every stored id must now be a user
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM (
+      SELECT "maker_id" AS "id" FROM "workflow_actions"
+      UNION SELECT "checker_id" FROM "workflow_actions" WHERE "checker_id" IS NOT NULL
+      UNION SELECT "checker_id" FROM "workflow_action_reviews"
+      UNION SELECT "submitted_by" FROM "workflow_action_revisions"
+    ) AS "ids"
+    WHERE "ids"."id" NOT IN (SELECT "id"::text FROM "users")
+  ) THEN
+    RAISE EXCEPTION 'Workflow tables reference maker/checker ids that are not user ids; map them to users before migrating';
+  END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "workflow_actions" ALTER COLUMN "maker_id" SET DATA TYPE uuid USING "maker_id"::uuid;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ALTER COLUMN "checker_id" SET DATA TYPE uuid USING "checker_id"::uuid;--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ALTER COLUMN "checker_id" SET DATA TYPE uuid USING "checker_id"::uuid;--> statement-breakpoint
+ALTER TABLE "workflow_action_revisions" ALTER COLUMN "submitted_by" SET DATA TYPE uuid USING "submitted_by"::uuid;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD CONSTRAINT "workflow_actions_maker_id_users_id_fk" FOREIGN KEY ("maker_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD CONSTRAINT "workflow_actions_checker_id_users_id_fk" FOREIGN KEY ("checker_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ADD CONSTRAINT "workflow_action_reviews_checker_id_users_id_fk" FOREIGN KEY ("checker_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_action_revisions" ADD CONSTRAINT "workflow_action_revisions_submitted_by_users_id_fk" FOREIGN KEY ("submitted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
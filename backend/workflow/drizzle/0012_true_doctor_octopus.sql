@@ -0,0 +1,5 @@
+ALTER TABLE "workflow_actions" ADD COLUMN "effective_at" timestamp;--> statement-breakpoint
+UPDATE "workflow_definitions" SET "states" = "states" || '["approved_scheduled"]'::jsonb, "updated_at" = now() WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'execute_scheduled', 'approved_scheduled', 'approved', 'SYSTEM', true FROM "workflow_definitions" WHERE "action_type" = 'default';
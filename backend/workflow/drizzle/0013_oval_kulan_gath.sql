@@ -0,0 +1,11 @@
+ALTER TABLE "workflow_actions" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "expired_at" timestamp;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "expiry_reason" text;--> statement-breakpoint
+UPDATE "workflow_actions"
+SET "expires_at" = "created_at" + CASE WHEN "action_type" = 'create_promotion' THEN interval '7 days' ELSE interval '30 days' END
+WHERE "status" IN ('pending', 'changes_requested');
+--> statement-breakpoint
+UPDATE "workflow_definitions" SET "states" = "states" || '["expired"]'::jsonb, "updated_at" = now() WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'expire', 'pending', 'expired', 'SYSTEM', false FROM "workflow_definitions" WHERE "action_type" = 'default';
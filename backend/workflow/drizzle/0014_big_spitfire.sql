@@ -0,0 +1,19 @@
+ALTER TABLE "workflow_action_reviews" DROP CONSTRAINT "workflow_action_reviews_action_revision_checker_unique";--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "approval_round" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD COLUMN "approval_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ADD COLUMN "approval_round" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_action_reviews" ADD CONSTRAINT "workflow_action_reviews_action_revision_round_checker_unique" UNIQUE("action_id","revision","approval_round","checker_id");--> statement-breakpoint
+UPDATE "workflow_actions"
+SET "approval_expires_at" = "reviewed_at" + CASE WHEN "action_type" = 'create_promotion' THEN interval '30 days' ELSE interval '7 days' END
+WHERE "status" IN ('approved_scheduled', 'execution_failed') AND "reviewed_at" IS NOT NULL;
+--> statement-breakpoint
+UPDATE "workflow_definitions" SET "states" = "states" || '["approval_lapsed"]'::jsonb, "updated_at" = now() WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'approve', 'approval_lapsed', 'approved', 'CHECKER', true FROM "workflow_definitions" WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'reject', 'approval_lapsed', 'rejected', 'CHECKER', false FROM "workflow_definitions" WHERE "action_type" = 'default';
+--> statement-breakpoint
+INSERT INTO "workflow_transitions" ("definition_id", "name", "from_state", "to_state", "allowed_role", "triggers_execution")
+SELECT "id", 'withdraw', 'approval_lapsed', 'withdrawn', 'MAKER', false FROM "workflow_definitions" WHERE "action_type" = 'default';
@@ -0,0 +1,3 @@
+ALTER TABLE "workflow_actions" ADD COLUMN "reverses_action_id" uuid;--> statement-breakpoint
+ALTER TABLE "workflow_actions" ADD CONSTRAINT "workflow_actions_reverses_action_id_workflow_actions_id_fk" FOREIGN KEY ("reverses_action_id") REFERENCES "public"."workflow_actions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+UPDATE "workflow_definitions" SET "states" = "states" || '["reversed"]'::jsonb, "updated_at" = now() WHERE "action_type" = 'default';
@@ -0,0 +1,13 @@
+CREATE TABLE "workflow_action_dependencies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_id" uuid NOT NULL,
+	"depends_on_action_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workflow_action_dependencies_action_depends_on_unique" UNIQUE("action_id","depends_on_action_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_action_dependencies" ADD CONSTRAINT "workflow_action_dependencies_action_id_workflow_actions_id_fk" FOREIGN KEY ("action_id") REFERENCES "public"."workflow_actions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_action_dependencies" ADD CONSTRAINT "workflow_action_dependencies_depends_on_action_id_workflow_actions_id_fk" FOREIGN KEY ("depends_on_action_id") REFERENCES "public"."workflow_actions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_action_dependencies_depends_on_idx" ON "workflow_action_dependencies" USING btree ("depends_on_action_id");
+--> statement-breakpoint
+UPDATE "workflow_definitions" SET "states" = "states" || '["blocked"]'::jsonb, "updated_at" = now() WHERE "action_type" = 'default';
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "account_ledger_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" uuid NOT NULL,
+	"direction" varchar(10) NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"balance_after" numeric(15, 2) NOT NULL,
+	"reason_code" varchar(50) NOT NULL,
+	"note" text,
+	"reverses_entry_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "account_ledger_entries" ADD CONSTRAINT "account_ledger_entries_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "account_ledger_entries" ADD CONSTRAINT "account_ledger_entries_reverses_entry_id_account_ledger_entries_id_fk" FOREIGN KEY ("reverses_entry_id") REFERENCES "public"."account_ledger_entries"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "account_ledger_entries_account_id_idx" ON "account_ledger_entries" USING btree ("account_id","created_at");
+--> statement-breakpoint
+INSERT INTO "account_ledger_entries" ("account_id", "direction", "amount", "balance_after", "reason_code", "note", "created_at") SELECT "id", 'credit', "balance", "balance", 'opening_balance', 'Balance held before the ledger was introduced', "created_at" FROM "accounts" WHERE "balance" > 0;
\ No newline at end of file
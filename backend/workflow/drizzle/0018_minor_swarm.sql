@@ -0,0 +1 @@
+ALTER TABLE "accounts" ADD COLUMN "closed_at" timestamp;
\ No newline at end of file
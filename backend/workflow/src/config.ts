@@ -8,6 +8,10 @@ export const env = {
   PORT: parseInt(process.env.PORT || '8080', 10),
   NODE_ENV: process.env.NODE_ENV || 'development',
   JWT_SECRET: process.env.JWT_SECRET || 'your-secret-key-change-it-in-prod',
+  MAX_EXECUTION_ATTEMPTS: parseInt(process.env.MAX_EXECUTION_ATTEMPTS || '3', 10),
+  SCHEDULER_INTERVAL_MS: parseInt(process.env.SCHEDULER_INTERVAL_MS || '60000', 10),
+  // Addresses of reverse proxies whose X-Forwarded-For entries are believed, comma separated
+  TRUSTED_PROXIES: (process.env.TRUSTED_PROXIES || '').split(',').map((address) => address.trim()).filter(Boolean),
 } as const;
 
 export function validateEnv(): void {
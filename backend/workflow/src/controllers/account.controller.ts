@@ -0,0 +1,58 @@
+import { type Context } from 'hono';
+import { AccountService } from '../services/account.service.js';
+import { ledgerQuerySchema } from '../validators/workflow.validator.js';
+import { HttpError } from '../errors/http.error.js';
+
+export class AccountController {
+  private accountService: AccountService;
+
+  constructor() {
+    this.accountService = new AccountService();
+  }
+
+  async getLedger(c: Context) {
+    try {
+      const accountId = c.req.param('id');
+
+      if (!accountId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Account ID is required',
+          },
+          400
+        );
+      }
+
+      const validationResult = ledgerQuerySchema.safeParse(c.req.query());
+      if (!validationResult.success) {
+        return c.json(
+          {
+            success: false,
+            error: 'Invalid query parameters',
+            details: validationResult.error.errors,
+          },
+          400
+        );
+      }
+
+      const result = await this.accountService.getLedger(accountId, validationResult.data);
+
+      return c.json({
+        success: true,
+        data: result.data,
+        account: result.account,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      console.error('Error getting account ledger:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get account ledger',
+        },
+        error instanceof HttpError ? error.status : 500
+      );
+    }
+  }
+}
@@ -26,6 +26,38 @@ export class ActionTypesController {
                             category: 'User Management',
                         };
                         break;
+                    case ActionTypes.UPDATE_USER:
+                        metadata = {
+                            actionType,
+                            name: 'Update User',
+                            description: "Change an existing user's email, username or full name",
+                            category: 'User Management',
+                        };
+                        break;
+                    case ActionTypes.DEACTIVATE_USER:
+                        metadata = {
+                            actionType,
+                            name: 'Deactivate User',
+                            description: 'Disable a user so they can no longer sign in',
+                            category: 'User Management',
+                        };
+                        break;
+                    case ActionTypes.REACTIVATE_USER:
+                        metadata = {
+                            actionType,
+                            name: 'Reactivate User',
+                            description: 'Restore sign-in for a deactivated user',
+                            category: 'User Management',
+                        };
+                        break;
+                    case ActionTypes.CHANGE_USER_ROLE:
+                        metadata = {
+                            actionType,
+                            name: 'Change User Role',
+                            description: 'Promote a maker to checker or move a checker back to maker',
+                            category: 'User Management',
+                        };
+                        break;
                     case ActionTypes.CREATE_ACCOUNT:
                         metadata = {
                             actionType,
@@ -34,6 +66,14 @@ export class ActionTypesController {
                             category: 'Account Management',
                         };
                         break;
+                    case ActionTypes.BALANCE_ADJUSTMENT:
+                        metadata = {
+                            actionType,
+                            name: 'Balance Adjustment',
+                            description: 'Credit or debit an account with a reason code, recorded in its ledger',
+                            category: 'Account Management',
+                        };
+                        break;
                     case ActionTypes.CREATE_PROMOTION:
                         metadata = {
                             actionType,
@@ -42,6 +82,22 @@ export class ActionTypesController {
                             category: 'Marketing',
                         };
                         break;
+                    case ActionTypes.REVERSE_ACTION:
+                        metadata = {
+                            actionType,
+                            name: 'Reverse Action',
+                            description: 'Undo the effect of an executed action',
+                            category: 'Governance',
+                        };
+                        break;
+                    case ActionTypes.BUNDLE:
+                        metadata = {
+                            actionType,
+                            name: 'Bundle',
+                            description: 'Submit several actions for a single review and execute them together',
+                            category: 'Governance',
+                        };
+                        break;
                     default:
                         metadata = {
                             actionType,
@@ -51,7 +107,11 @@ export class ActionTypesController {
                         };
                 }
 
-                return metadata;
+                // Reversals are opened from the executed action, not from the create form
+                return {
+                    ...metadata,
+                    creatable: actionType !== ActionTypes.REVERSE_ACTION,
+                };
             });
 
             return c.json({
@@ -0,0 +1,34 @@
+import { type Context } from 'hono';
+import { WorkflowAuditService } from '../services/workflow-audit.service.js';
+import { HttpError } from '../errors/http.error.js';
+
+export class AuditController {
+  private workflowAuditService: WorkflowAuditService;
+
+  constructor() {
+    this.workflowAuditService = new WorkflowAuditService();
+  }
+
+  async verifyChain(c: Context) {
+    try {
+      const result = await this.workflowAuditService.verifyChain();
+
+      return c.json({
+        success: true,
+        message: result.valid
+          ? `Audit chain intact (${result.eventsChecked} events verified)`
+          : `Audit chain broken at event ${result.firstBrokenLink?.eventId}`,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error verifying audit chain:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to verify audit chain',
+        },
+        error instanceof HttpError ? error.status : 500
+      );
+    }
+  }
+}
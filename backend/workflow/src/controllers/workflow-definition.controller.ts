@@ -0,0 +1,43 @@
+import { type Context } from 'hono';
+import { WorkflowDefinitionService } from '../services/workflow-definition.service.js';
+import { HttpError } from '../errors/http.error.js';
+
+export class WorkflowDefinitionController {
+  private workflowDefinitionService: WorkflowDefinitionService;
+
+  constructor() {
+    this.workflowDefinitionService = new WorkflowDefinitionService();
+  }
+
+  async getDefinition(c: Context) {
+    try {
+      const actionType = c.req.param('actionType');
+
+      if (!actionType) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action type is required',
+          },
+          400
+        );
+      }
+
+      const definition = await this.workflowDefinitionService.getDefinition(actionType);
+
+      return c.json({
+        success: true,
+        data: definition,
+      });
+    } catch (error) {
+      console.error('Error getting workflow definition:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get workflow definition',
+        },
+        error instanceof HttpError ? error.status : 500
+      );
+    }
+  }
+}
@@ -1,11 +1,68 @@
 import { type Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { getConnInfo } from '@hono/node-server/conninfo';
 import { WorkflowService } from '../services/workflow.service.js';
 import {
   createWorkflowActionSchema,
   reviewActionSchema,
+  retryExecutionSchema,
+  transitionActionSchema,
+  resubmitActionSchema,
+  reverseActionSchema,
+  withdrawActionSchema,
   listActionsQuerySchema,
 } from '../validators/workflow.validator.js';
-import { ActionStatus } from '../types/workflow.type.js';
+import { ActionStatus, type WorkflowActor } from '../types/workflow.type.js';
+import { ForbiddenError, HttpError } from '../errors/http.error.js';
+import { env } from '../config.js';
+
+function getErrorStatus(error: unknown): ContentfulStatusCode {
+  if (error instanceof HttpError) {
+    return error.status;
+  }
+  return error instanceof Error && error.message.includes('not found') ? 404 : 500;
+}
+
+function getErrorDetails(error: unknown) {
+  return error instanceof HttpError && error.details !== undefined ? { details: error.details } : {};
+}
+
+function getClientIp(c: Context) {
+  let address: string | undefined;
+  try {
+    address = getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+
+  // X-Forwarded-For is whatever the client sent, so only the entries appended by trusted
+  // proxies count: walk back from the socket peer until an address isn't one of them
+  const forwarded = c.req.header('x-forwarded-for')?.split(',').map((entry) => entry.trim()).filter(Boolean) ?? [];
+  while (address && env.TRUSTED_PROXIES.includes(address) && forwarded.length > 0) {
+    address = forwarded.pop();
+  }
+  return address;
+}
+
+/**
+ * The acting user always comes from the verified JWT. Older clients still send
+ * makerId/checkerId in the body; those are accepted only if they name the same user.
+ */
+function getActor(c: Context, claimedId?: string): WorkflowActor {
+  const payload = c.get('jwtPayload');
+  if (claimedId && claimedId !== payload.id) {
+    throw new ForbiddenError('Request body identity does not match the authenticated user');
+  }
+
+  return {
+    id: payload.id,
+    role: payload.role,
+    context: {
+      ipAddress: getClientIp(c),
+      userAgent: c.req.header('user-agent'),
+    },
+  };
+}
 
 export class WorkflowController {
   private workflowService: WorkflowService;
@@ -31,9 +88,33 @@ export class WorkflowController {
         );
       }
 
-      const { actionType, payload, makerId } = validationResult.data;
+      const { actionType, payload, effectiveAt, dependsOn, makerId } = validationResult.data;
+
+      const idempotencyKey = c.req.header('Idempotency-Key');
+      if (idempotencyKey !== undefined && (idempotencyKey.length === 0 || idempotencyKey.length > 255)) {
+        return c.json(
+          {
+            success: false,
+            error: 'Idempotency-Key must be between 1 and 255 characters',
+          },
+          400
+        );
+      }
+
+      const { action, replayed } = await this.workflowService.createAction(
+        actionType,
+        payload,
+        getActor(c, makerId),
+        {
+          idempotencyKey,
+          effectiveAt: effectiveAt ? new Date(effectiveAt) : undefined,
+          dependsOn,
+        }
+      );
 
-      const action = await this.workflowService.createAction(actionType, payload, makerId);
+      if (replayed) {
+        c.header('Idempotent-Replayed', 'true');
+      }
 
       return c.json(
         {
@@ -49,8 +130,9 @@ export class WorkflowController {
         {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to create action',
+          ...getErrorDetails(error),
         },
-        500
+        error instanceof HttpError ? error.status : 500
       );
     }
   }
@@ -107,10 +189,21 @@ export class WorkflowController {
       }
 
       const action = await this.workflowService.getActionById(actionId);
+      const reviews = await this.workflowService.getActionReviews(actionId);
+      const revisions = await this.workflowService.getActionRevisions(actionId);
+      const reversals = await this.workflowService.getReversals(actionId);
+      const dependencyGraph = await this.workflowService.getDependencyGraph(actionId);
 
       return c.json({
         success: true,
-        data: action,
+        data: {
+          ...action,
+          reviews,
+          revisions,
+          reversals,
+          reversible: this.workflowService.isReversible(action, reversals),
+          dependencyGraph,
+        },
       });
     } catch (error) {
       console.error('Error getting action detail:', error);
@@ -152,19 +245,39 @@ export class WorkflowController {
         );
       }
 
-      const { status, checkerId, reviewComment } = validationResult.data;
+      const { status, checkerId, reviewComment, payloadHash } = validationResult.data;
 
       const result = await this.workflowService.reviewAction(
         actionId,
-        checkerId,
+        getActor(c, checkerId),
         status,
-        reviewComment
+        reviewComment,
+        payloadHash
       );
 
-      const message = status === ActionStatus.APPROVED 
+      if (result.action.status === ActionStatus.EXECUTION_FAILED) {
+        return c.json(
+          {
+            success: false,
+            error: `Action approved but execution failed: ${result.action.executionError}`,
+            data: result,
+          },
+          422
+        );
+      }
+
+      let message = status === ActionStatus.APPROVED
         ? 'Action approved and executed successfully'
         : 'Action rejected successfully';
 
+      if (status === ActionStatus.CHANGES_REQUESTED) {
+        message = 'Changes requested; action returned to the maker';
+      } else if (result.action.status === ActionStatus.APPROVED_SCHEDULED) {
+        message = `Action approved; scheduled to execute at ${result.action.effectiveAt?.toISOString()}`;
+      } else if (result.action.status === ActionStatus.PENDING || result.action.status === ActionStatus.APPROVAL_LAPSED) {
+        message = `${status === ActionStatus.APPROVED ? 'Approval' : 'Rejection'} recorded; awaiting further checker reviews`;
+      }
+
       return c.json({
         success: true,
         message,
@@ -176,8 +289,448 @@ export class WorkflowController {
         {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to review action',
+          ...getErrorDetails(error),
         },
-        error instanceof Error && error.message.includes('not found') ? 404 : 500
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async retryExecution(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      // Validate request body
+      const validationResult = retryExecutionSchema.safeParse(body);
+      if (!validationResult.success) {
+        return c.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors,
+          },
+          400
+        );
+      }
+
+      const result = await this.workflowService.retryExecution(
+        actionId,
+        getActor(c, validationResult.data.checkerId)
+      );
+
+      if (result.action.status === ActionStatus.EXECUTION_FAILED) {
+        return c.json(
+          {
+            success: false,
+            error: `Execution failed again: ${result.action.executionError}`,
+            data: result,
+          },
+          422
+        );
+      }
+
+      if (result.action.status === ActionStatus.APPROVAL_LAPSED) {
+        return c.json(
+          {
+            success: false,
+            error: 'Approval has lapsed; the action must be approved again before it can execute',
+            data: result,
+          },
+          409
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: 'Action executed successfully',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error retrying execution:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to retry execution',
+          ...getErrorDetails(error),
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async withdrawAction(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      // Validate request body
+      const validationResult = withdrawActionSchema.safeParse(body);
+      if (!validationResult.success) {
+        return c.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors,
+          },
+          400
+        );
+      }
+
+      const result = await this.workflowService.withdrawAction(
+        actionId,
+        getActor(c),
+        validationResult.data.reason
+      );
+
+      return c.json({
+        success: true,
+        message: 'Action withdrawn successfully',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error withdrawing action:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to withdraw action',
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async resubmitAction(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+      const body = await c.req.json();
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      // Validate request body
+      const validationResult = resubmitActionSchema.safeParse(body);
+      if (!validationResult.success) {
+        return c.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors,
+          },
+          400
+        );
+      }
+
+      const { payload, comment } = validationResult.data;
+
+      const result = await this.workflowService.resubmitAction(actionId, getActor(c), payload, comment);
+
+      return c.json({
+        success: true,
+        message: `Action resubmitted as revision ${result.action.revision}`,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error resubmitting action:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to resubmit action',
+          ...getErrorDetails(error),
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async transitionAction(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+      const transitionName = c.req.param('transition');
+      const body = await c.req.json().catch(() => ({}));
+
+      if (!actionId || !transitionName) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID and transition are required',
+          },
+          400
+        );
+      }
+
+      // Validate request body
+      const validationResult = transitionActionSchema.safeParse(body);
+      if (!validationResult.success) {
+        return c.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors,
+          },
+          400
+        );
+      }
+
+      const result = await this.workflowService.transitionAction(
+        actionId,
+        transitionName,
+        getActor(c),
+        validationResult.data.comment,
+        validationResult.data.payloadHash
+      );
+
+      if (result.action.status === ActionStatus.EXECUTION_FAILED) {
+        return c.json(
+          {
+            success: false,
+            error: `Transition ${transitionName} succeeded but execution failed: ${result.action.executionError}`,
+            data: result,
+          },
+          422
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: `Transition ${transitionName} applied; action is now ${result.action.status}`,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error transitioning action:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to transition action',
+          ...getErrorDetails(error),
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async getAvailableTransitions(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      const transitions = await this.workflowService.getAvailableTransitions(actionId, getActor(c));
+
+      return c.json({
+        success: true,
+        data: transitions,
+      });
+    } catch (error) {
+      console.error('Error getting available transitions:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get available transitions',
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async reverseAction(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      // Validate request body
+      const validationResult = reverseActionSchema.safeParse(body);
+      if (!validationResult.success) {
+        return c.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors,
+          },
+          400
+        );
+      }
+
+      const idempotencyKey = c.req.header('Idempotency-Key');
+      if (idempotencyKey !== undefined && (idempotencyKey.length === 0 || idempotencyKey.length > 255)) {
+        return c.json(
+          {
+            success: false,
+            error: 'Idempotency-Key must be between 1 and 255 characters',
+          },
+          400
+        );
+      }
+
+      const { action, replayed } = await this.workflowService.reverseAction(
+        actionId,
+        getActor(c),
+        validationResult.data.reason,
+        idempotencyKey
+      );
+
+      if (replayed) {
+        c.header('Idempotent-Replayed', 'true');
+      }
+
+      return c.json(
+        {
+          success: true,
+          message: 'Reversal submitted for approval',
+          data: action,
+        },
+        201
+      );
+    } catch (error) {
+      console.error('Error reversing action:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to reverse action',
+          ...getErrorDetails(error),
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async previewAction(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      const preview = await this.workflowService.previewAction(actionId, getActor(c));
+
+      return c.json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      console.error('Error previewing action:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to preview action',
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async getActionEvents(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      const events = await this.workflowService.getActionEvents(actionId);
+
+      return c.json({
+        success: true,
+        data: events,
+      });
+    } catch (error) {
+      console.error('Error getting action events:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get action events',
+        },
+        getErrorStatus(error)
+      );
+    }
+  }
+
+  async getExecutionAttempts(c: Context) {
+    try {
+      const actionId = c.req.param('id');
+
+      if (!actionId) {
+        return c.json(
+          {
+            success: false,
+            error: 'Action ID is required',
+          },
+          400
+        );
+      }
+
+      const attempts = await this.workflowService.getExecutionAttempts(actionId);
+
+      return c.json({
+        success: true,
+        data: attempts,
+      });
+    } catch (error) {
+      console.error('Error getting execution attempts:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get execution attempts',
+        },
+        getErrorStatus(error)
       );
     }
   }
@@ -9,3 +9,5 @@ export const pool = new Pool({
 export const db = drizzle(pool, { schema });
 
 export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+export type DbClient = Database | Transaction;
@@ -0,0 +1,20 @@
+import { pgTable, uuid, varchar, timestamp, text, decimal, index, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { accounts } from './accounts.js';
+
+// Append-only history of balance changes; an entry is never updated, a mistake is undone by an opposite entry
+export const accountLedgerEntries = pgTable('account_ledger_entries', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  accountId: uuid('account_id').references(() => accounts.id).notNull(),
+  direction: varchar('direction', { length: 10 }).notNull(), // credit, debit
+  amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
+  balanceAfter: decimal('balance_after', { precision: 15, scale: 2 }).notNull(),
+  reasonCode: varchar('reason_code', { length: 50 }).notNull(), // correction, fee, ..., reversal
+  note: text('note'),
+  reversesEntryId: uuid('reverses_entry_id').references((): AnyPgColumn => accountLedgerEntries.id), // set on reversal entries
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('account_ledger_entries_account_id_idx').on(table.accountId, table.createdAt),
+]);
+
+export type AccountLedgerEntry = typeof accountLedgerEntries.$inferSelect;
+export type NewAccountLedgerEntry = typeof accountLedgerEntries.$inferInsert;
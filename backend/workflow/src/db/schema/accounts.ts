@@ -8,6 +8,7 @@ export const accounts = pgTable('accounts', {
   accountType: varchar('account_type', { length: 50 }).notNull(), // savings, checking, etc.
   balance: decimal('balance', { precision: 15, scale: 2 }).default('0').notNull(),
   currency: varchar('currency', { length: 3 }).default('USD').notNull(),
+  closedAt: timestamp('closed_at'), // set when a reversed account keeps its ledger history
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -0,0 +1,20 @@
+import { pgTable, uuid, varchar, timestamp, integer, jsonb, unique } from 'drizzle-orm/pg-core';
+import { users } from './users.js';
+import { workflowActions } from './workflow-actions.js';
+
+export const idempotencyKeys = pgTable('idempotency_keys', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  key: varchar('key', { length: 255 }).notNull(),
+  makerId: uuid('maker_id').references(() => users.id).notNull(),
+  requestHash: varchar('request_hash', { length: 64 }).notNull(), // canonical SHA-256 of the request body
+  actionId: uuid('action_id').references(() => workflowActions.id),
+  responseStatus: integer('response_status'),
+  responseBody: jsonb('response_body'), // set once the first request completes
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  // Keys are scoped per maker so two clients can't collide on the same key
+  unique('idempotency_keys_maker_key_unique').on(table.makerId, table.key),
+]);
+
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type NewIdempotencyKey = typeof idempotencyKeys.$inferInsert;
@@ -2,3 +2,11 @@ export * from './users.js';
 export * from './accounts.js';
 export * from './promotions.js';
 export * from './workflow-actions.js';
+export * from './workflow-action-executions.js';
+export * from './workflow-action-reviews.js';
+export * from './workflow-definitions.js';
+export * from './workflow-action-revisions.js';
+export * from './workflow-action-events.js';
+export * from './idempotency-keys.js';
+export * from './workflow-action-dependencies.js';
+export * from './account-ledger-entries.js';
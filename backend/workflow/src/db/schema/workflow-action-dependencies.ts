@@ -0,0 +1,16 @@
+import { pgTable, uuid, timestamp, index, unique } from 'drizzle-orm/pg-core';
+import { workflowActions } from './workflow-actions.js';
+
+// An action that may only execute after the action it depends on has executed
+export const workflowActionDependencies = pgTable('workflow_action_dependencies', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actionId: uuid('action_id').references(() => workflowActions.id).notNull(),
+  dependsOnActionId: uuid('depends_on_action_id').references(() => workflowActions.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('workflow_action_dependencies_action_depends_on_unique').on(table.actionId, table.dependsOnActionId),
+  index('workflow_action_dependencies_depends_on_idx').on(table.dependsOnActionId),
+]);
+
+export type WorkflowActionDependency = typeof workflowActionDependencies.$inferSelect;
+export type NewWorkflowActionDependency = typeof workflowActionDependencies.$inferInsert;
@@ -0,0 +1,29 @@
+import { pgTable, uuid, varchar, timestamp, text, jsonb, index, bigserial } from 'drizzle-orm/pg-core';
+import { workflowActions } from './workflow-actions.js';
+
+// Append-only: a database trigger rejects UPDATE and DELETE on this table.
+// Events form a single hash chain in `sequence` order; rows written before the
+// chain existed have no hash.
+export const workflowActionEvents = pgTable('workflow_action_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  sequence: bigserial('sequence', { mode: 'number' }).notNull().unique(),
+  actionId: uuid('action_id').references(() => workflowActions.id).notNull(),
+  eventType: varchar('event_type', { length: 50 }).notNull(), // created, review_recorded, execution_succeeded, execution_failed or a transition name
+  fromStatus: varchar('from_status', { length: 20 }),
+  toStatus: varchar('to_status', { length: 20 }),
+  actorId: varchar('actor_id', { length: 255 }).notNull(),
+  actorRole: varchar('actor_role', { length: 20 }).notNull(),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  userAgent: text('user_agent'),
+  before: jsonb('before'),
+  after: jsonb('after'),
+  metadata: jsonb('metadata'),
+  previousHash: varchar('previous_hash', { length: 64 }),
+  hash: varchar('hash', { length: 64 }), // SHA-256 of the event content and previousHash
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('workflow_action_events_action_idx').on(table.actionId, table.createdAt),
+]);
+
+export type WorkflowActionEvent = typeof workflowActionEvents.$inferSelect;
+export type NewWorkflowActionEvent = typeof workflowActionEvents.$inferInsert;
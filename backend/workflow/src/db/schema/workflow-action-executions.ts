@@ -0,0 +1,16 @@
+import { pgTable, uuid, varchar, timestamp, text, jsonb, integer } from 'drizzle-orm/pg-core';
+import { workflowActions } from './workflow-actions.js';
+
+export const workflowActionExecutions = pgTable('workflow_action_executions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actionId: uuid('action_id').references(() => workflowActions.id).notNull(),
+  attempt: integer('attempt').notNull(),
+  status: varchar('status', { length: 20 }).notNull(), // executed, execution_failed
+  triggeredBy: varchar('triggered_by', { length: 255 }).notNull(),
+  result: jsonb('result'),
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export type WorkflowActionExecution = typeof workflowActionExecutions.$inferSelect;
+export type NewWorkflowActionExecution = typeof workflowActionExecutions.$inferInsert;
@@ -0,0 +1,25 @@
+import { pgTable, uuid, varchar, timestamp, text, integer, unique } from 'drizzle-orm/pg-core';
+import { workflowActions } from './workflow-actions.js';
+import { users } from './users.js';
+
+export const workflowActionReviews = pgTable('workflow_action_reviews', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actionId: uuid('action_id').references(() => workflowActions.id).notNull(),
+  revision: integer('revision').default(1).notNull(), // payload revision the vote applies to
+  approvalRound: integer('approval_round').default(1).notNull(), // approval round within that revision
+  checkerId: uuid('checker_id').references(() => users.id).notNull(),
+  decision: varchar('decision', { length: 20 }).notNull(), // approved, rejected, changes_requested
+  comment: text('comment'),
+  payloadHash: varchar('payload_hash', { length: 64 }), // hash of the payload the checker saw
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('workflow_action_reviews_action_revision_round_checker_unique').on(
+    table.actionId,
+    table.revision,
+    table.approvalRound,
+    table.checkerId
+  ),
+]);
+
+export type WorkflowActionReview = typeof workflowActionReviews.$inferSelect;
+export type NewWorkflowActionReview = typeof workflowActionReviews.$inferInsert;
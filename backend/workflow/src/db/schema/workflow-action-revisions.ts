@@ -0,0 +1,20 @@
+import { pgTable, uuid, timestamp, text, jsonb, integer, unique } from 'drizzle-orm/pg-core';
+import { workflowActions } from './workflow-actions.js';
+import { users } from './users.js';
+import { type PayloadChange } from '../../utils/payload-diff.js';
+
+export const workflowActionRevisions = pgTable('workflow_action_revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actionId: uuid('action_id').references(() => workflowActions.id).notNull(),
+  revision: integer('revision').notNull(),
+  payload: jsonb('payload').notNull(),
+  changes: jsonb('changes').$type<PayloadChange[]>().notNull(), // diff against the previous revision
+  submittedBy: uuid('submitted_by').references(() => users.id).notNull(),
+  comment: text('comment'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('workflow_action_revisions_action_revision_unique').on(table.actionId, table.revision),
+]);
+
+export type WorkflowActionRevision = typeof workflowActionRevisions.$inferSelect;
+export type NewWorkflowActionRevision = typeof workflowActionRevisions.$inferInsert;
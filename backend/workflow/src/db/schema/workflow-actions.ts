@@ -1,14 +1,30 @@
-import { pgTable, uuid, varchar, timestamp, text, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, timestamp, text, jsonb, integer, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { users } from './users.js';
 
 export const workflowActions = pgTable('workflow_actions', {
   id: uuid('id').defaultRandom().primaryKey(),
   actionType: varchar('action_type', { length: 100 }).notNull(),
   status: varchar('status', { length: 20 }).default('pending').notNull(),
   payload: jsonb('payload').notNull(), 
-  makerId: varchar('maker_id', { length: 255 }).notNull(),
-  checkerId: varchar('checker_id', { length: 255 }), 
+  payloadHash: varchar('payload_hash', { length: 64 }), // canonical SHA-256 of the submitted payload
+  revision: integer('revision').default(1).notNull(),
+  makerId: uuid('maker_id').references(() => users.id).notNull(),
+  requiredApprovals: integer('required_approvals').default(1).notNull(),
+  approvalRound: integer('approval_round').default(1).notNull(), // bumped when an approval lapses, so votes start over
+  approvalExpiresAt: timestamp('approval_expires_at'), // the approval can't be executed on after this
+  checkerId: uuid('checker_id').references(() => users.id), 
   reviewComment: text('review_comment'),
   reviewedAt: timestamp('reviewed_at'),
+  executionResult: jsonb('execution_result'),
+  executionError: text('execution_error'),
+  effectiveAt: timestamp('effective_at'), // executed by the scheduler once this passes
+  executedAt: timestamp('executed_at'),
+  withdrawnAt: timestamp('withdrawn_at'),
+  withdrawalReason: text('withdrawal_reason'),
+  expiresAt: timestamp('expires_at'), // pending actions not decided by then are expired
+  expiredAt: timestamp('expired_at'),
+  expiryReason: text('expiry_reason'),
+  reversesActionId: uuid('reverses_action_id').references((): AnyPgColumn => workflowActions.id), // set on reversal actions
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
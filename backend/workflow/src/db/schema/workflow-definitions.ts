@@ -0,0 +1,29 @@
+import { pgTable, uuid, varchar, timestamp, text, jsonb, boolean, unique } from 'drizzle-orm/pg-core';
+
+export const workflowDefinitions = pgTable('workflow_definitions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actionType: varchar('action_type', { length: 100 }).notNull().unique(), // 'default' applies to types without their own definition
+  description: text('description'),
+  initialState: varchar('initial_state', { length: 20 }).notNull(),
+  states: jsonb('states').$type<string[]>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const workflowTransitions = pgTable('workflow_transitions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  definitionId: uuid('definition_id').references(() => workflowDefinitions.id).notNull(),
+  name: varchar('name', { length: 50 }).notNull(),
+  fromState: varchar('from_state', { length: 20 }).notNull(),
+  toState: varchar('to_state', { length: 20 }).notNull(),
+  allowedRole: varchar('allowed_role', { length: 20 }).notNull(), // MAKER, CHECKER, SYSTEM, ...
+  triggersExecution: boolean('triggers_execution').default(false).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('workflow_transitions_definition_name_from_unique').on(table.definitionId, table.name, table.fromState),
+]);
+
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+export type NewWorkflowDefinition = typeof workflowDefinitions.$inferInsert;
+export type WorkflowTransition = typeof workflowTransitions.$inferSelect;
+export type NewWorkflowTransition = typeof workflowTransitions.$inferInsert;
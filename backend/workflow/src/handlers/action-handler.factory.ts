@@ -2,14 +2,27 @@
 import { ActionTypes } from '../types/workflow.type.js';
 import { type ActionHandler } from './base.handler.js';
 import { CreateUserHandler } from './create-user.handler.js';
+import { UpdateUserHandler } from './update-user.handler.js';
+import { DeactivateUserHandler, ReactivateUserHandler } from './user-status.handler.js';
+import { ChangeUserRoleHandler } from './change-user-role.handler.js';
 import { CreateAccountHandler } from './create-account.handler.js';
+import { BalanceAdjustmentHandler } from './balance-adjustment.handler.js';
 import { CreatePromotionHandler } from './create-promotion.handler.js';
+import { ReverseActionHandler } from './reverse-action.handler.js';
+import { BundleHandler } from './bundle.handler.js';
 
 export class ActionHandlerFactory {
   private static handlers: Record<string, ActionHandler<any>> = {
     [ActionTypes.CREATE_USER]: new CreateUserHandler(),
+    [ActionTypes.UPDATE_USER]: new UpdateUserHandler(),
+    [ActionTypes.DEACTIVATE_USER]: new DeactivateUserHandler(),
+    [ActionTypes.REACTIVATE_USER]: new ReactivateUserHandler(),
+    [ActionTypes.CHANGE_USER_ROLE]: new ChangeUserRoleHandler(),
     [ActionTypes.CREATE_ACCOUNT]: new CreateAccountHandler(),
+    [ActionTypes.BALANCE_ADJUSTMENT]: new BalanceAdjustmentHandler(),
     [ActionTypes.CREATE_PROMOTION]: new CreatePromotionHandler(),
+    [ActionTypes.REVERSE_ACTION]: new ReverseActionHandler(),
+    [ActionTypes.BUNDLE]: new BundleHandler(),
   };
 
   static getHandler(actionType: string): ActionHandler<any> {
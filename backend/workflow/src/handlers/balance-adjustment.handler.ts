@@ -0,0 +1,127 @@
+import { and, eq, gte, sql } from 'drizzle-orm';
+import { type DbClient } from '../db/index.js';
+import { accounts, accountLedgerEntries, type AccountLedgerEntry } from '../db/schema/index.js';
+import { type BalanceAdjustmentPayload, type LedgerDirection } from '../types/workflow.type.js';
+import { BaseActionHandler } from './base.handler.js';
+import { balanceAdjustmentSchema } from '../validators/workflow.validator.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+
+interface LedgerPosting {
+  accountId: string;
+  direction: LedgerDirection;
+  amount: string;
+  reasonCode: string;
+  note?: string;
+  reversesEntryId?: string;
+}
+
+/**
+ * Credits or debits an account. Every change is written to account_ledger_entries in the
+ * same transaction as the balance update, and a debit never takes the balance below zero.
+ */
+export class BalanceAdjustmentHandler extends BaseActionHandler<BalanceAdjustmentPayload> {
+  async validate(payload: BalanceAdjustmentPayload): Promise<void> {
+    // Validate with Zod schema
+    const validationResult = balanceAdjustmentSchema.safeParse(payload);
+    if (!validationResult.success) {
+      throw new Error(`Validation failed: ${validationResult.error.message}`);
+    }
+  }
+
+  async precheck(db: DbClient, payload: BalanceAdjustmentPayload): Promise<void> {
+    const account = await db.query.accounts.findFirst({
+      where: eq(accounts.id, payload.accountId),
+    });
+
+    if (!account) {
+      throw new UnprocessableEntityError(`Account with ID ${payload.accountId} does not exist`);
+    }
+
+    if (account.closedAt) {
+      throw new UnprocessableEntityError(`Account ${account.accountNumber} is closed`);
+    }
+
+    // Refused early so checkers aren't asked to approve what can't execute; the balance is checked again on execution
+    if (payload.direction === 'debit' && Number(account.balance) < Number(payload.amount)) {
+      throw new UnprocessableEntityError(
+        `Debit of ${payload.amount} would overdraw account ${account.accountNumber} (balance ${account.balance})`
+      );
+    }
+  }
+
+  async execute(db: DbClient, payload: BalanceAdjustmentPayload): Promise<any> {
+    return this.post(db, {
+      accountId: payload.accountId,
+      direction: payload.direction,
+      amount: payload.amount,
+      reasonCode: payload.reasonCode,
+      note: payload.note,
+    });
+  }
+
+  // Undo with an opposite entry; the original entry stays in the ledger
+  async compensate(db: DbClient, _payload: BalanceAdjustmentPayload, executionResult: any): Promise<any> {
+    const entry = executionResult as AccountLedgerEntry;
+
+    return this.post(db, {
+      accountId: entry.accountId,
+      direction: entry.direction === 'credit' ? 'debit' : 'credit',
+      amount: entry.amount,
+      reasonCode: 'reversal',
+      note: `Reverses ledger entry ${entry.id}`,
+      reversesEntryId: entry.id,
+    });
+  }
+
+  private async post(db: DbClient, posting: LedgerPosting): Promise<AccountLedgerEntry> {
+    // Locked so the account can't be closed by a concurrent reversal in the meantime
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.id, posting.accountId))
+      .for('update');
+
+    if (!account) {
+      throw new UnprocessableEntityError(`Account with ID ${posting.accountId} does not exist`);
+    }
+
+    if (account.closedAt) {
+      throw new UnprocessableEntityError(`Account ${account.accountNumber} is closed`);
+    }
+
+    // The balance guard is part of the update itself, so the balance can never go below zero
+    const isDebit = posting.direction === 'debit';
+    const [updatedAccount] = await db
+      .update(accounts)
+      .set({
+        balance: isDebit
+          ? sql`${accounts.balance} - ${posting.amount}`
+          : sql`${accounts.balance} + ${posting.amount}`,
+        updatedAt: new Date(),
+      })
+      .where(
+        isDebit
+          ? and(eq(accounts.id, posting.accountId), gte(accounts.balance, posting.amount))
+          : eq(accounts.id, posting.accountId)
+      )
+      .returning({ balance: accounts.balance });
+
+    if (!updatedAccount) {
+      throw new UnprocessableEntityError(
+        `Debit of ${posting.amount} would overdraw account ${account.accountNumber}`
+      );
+    }
+
+    const [entry] = await db.insert(accountLedgerEntries).values({
+      accountId: posting.accountId,
+      direction: posting.direction,
+      amount: posting.amount,
+      balanceAfter: updatedAccount.balance,
+      reasonCode: posting.reasonCode,
+      note: posting.note,
+      reversesEntryId: posting.reversesEntryId,
+    }).returning();
+
+    return entry;
+  }
+}
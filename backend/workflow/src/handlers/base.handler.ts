@@ -1,12 +1,44 @@
-import { type Database } from '../db/index.js';
+import { type DbClient } from '../db/index.js';
 import { type ActionPayload } from '../types/workflow.type.js';
 
+/** A payload field whose value must be unique among the entities an action type creates */
+export interface NaturalKey {
+  field: string;
+  value: string;
+  // Action type whose entity holds the key, when it isn't the handler's own (bundle steps)
+  actionType?: string;
+}
+
 export interface ActionHandler<T extends ActionPayload = ActionPayload> {
   validate(payload: T): Promise<void>;
-  execute(db: Database, payload: T): Promise<any>;
+  precheck(db: DbClient, payload: T): Promise<void>;
+  prepare(db: DbClient, payload: T): Promise<T>;
+  execute(db: DbClient, payload: T): Promise<any>;
+  getNaturalKeys(payload: T): NaturalKey[];
+  findExistingKeys(db: DbClient, payload: T): Promise<NaturalKey[]>;
+  // Undo an earlier execution; only action types that implement it can be reversed
+  compensate?(db: DbClient, payload: T, executionResult: any): Promise<any>;
 }
 
 export abstract class BaseActionHandler<T extends ActionPayload = ActionPayload> implements ActionHandler<T> {
   abstract validate(payload: T): Promise<void>;
-  abstract execute(db: Database, payload: T): Promise<any>;
+  abstract execute(db: DbClient, payload: T): Promise<any>;
+
+  // Checks against current data (referenced rows exist, ...) run when the action is submitted
+  async precheck(_db: DbClient, _payload: T): Promise<void> {}
+
+  // Adds what the action needs from current data (e.g. a snapshot of the row it changes) to the payload
+  async prepare(_db: DbClient, payload: T): Promise<T> {
+    return payload;
+  }
+
+  // Action types that don't create uniquely keyed entities have nothing to collide on
+  getNaturalKeys(_payload: T): NaturalKey[] {
+    return [];
+  }
+
+  // Natural keys from the payload that an existing entity already holds
+  async findExistingKeys(_db: DbClient, _payload: T): Promise<NaturalKey[]> {
+    return [];
+  }
 }
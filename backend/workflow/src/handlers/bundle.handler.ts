@@ -0,0 +1,127 @@
+import { type DbClient } from '../db/index.js';
+import { type BundlePayload, type BundleStep } from '../types/workflow.type.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
+import { ActionHandlerFactory } from './action-handler.factory.js';
+import { actionPayloadSchemas, bundleSchema } from '../validators/workflow.validator.js';
+import { findStepReferences, parseStepReference, resolveStepReferences } from '../utils/step-references.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+
+// Only ids may come from an earlier step: the approval policy reads amounts and other
+// values at submission, so those have to be known up front
+const REFERENCEABLE_FIELD = /^(id|[a-z][A-Za-z0-9]*Id)$/;
+
+export class BundleHandler extends BaseActionHandler<BundlePayload> {
+  async validate(payload: BundlePayload): Promise<void> {
+    // Validate with Zod schema
+    const validationResult = bundleSchema.safeParse(payload);
+    if (!validationResult.success) {
+      throw new UnprocessableEntityError(`Validation failed: ${validationResult.error.message}`);
+    }
+
+    const claimedKeys = new Map<string, number>();
+
+    for (const [index, step] of payload.steps.entries()) {
+      const references = findStepReferences(step.payload);
+
+      const forwardReference = references.find((reference) => reference.stepIndex >= index);
+      if (forwardReference) {
+        throw new UnprocessableEntityError(`Validation failed: step ${index} field ${forwardReference.field} can only refer to an earlier step`);
+      }
+
+      const valueReference = references.find((reference) => !REFERENCEABLE_FIELD.test(reference.field));
+      if (valueReference) {
+        throw new UnprocessableEntityError(`Validation failed: step ${index} field ${valueReference.field} cannot refer to another step; only id fields can`);
+      }
+
+      // Referenced fields only get their value at execution, so the schema can't judge them yet
+      const referencedFields = new Set(references.map((reference) => reference.field));
+      const stepResult = actionPayloadSchemas[step.actionType].safeParse(step.payload);
+      const issues = stepResult.success
+        ? []
+        : stepResult.error.errors.filter((issue) => !referencedFields.has(String(issue.path[0])));
+
+      if (issues.length > 0) {
+        throw new UnprocessableEntityError(`Validation failed: step ${index} (${step.actionType}): ${issues.map((issue) => issue.message).join(', ')}`);
+      }
+
+      // Two steps creating the same entity would fail at execution; refuse the bundle now
+      const keys = ActionHandlerFactory.getHandler(step.actionType)
+        .getNaturalKeys(step.payload)
+        .filter((key) => !parseStepReference(key.value));
+
+      for (const key of keys) {
+        const claimKey = `${step.actionType}:${key.field}:${key.value}`;
+        const claimedBy = claimedKeys.get(claimKey);
+        if (claimedBy !== undefined) {
+          throw new UnprocessableEntityError(`Validation failed: steps ${claimedBy} and ${index} both use ${key.field} ${key.value}`);
+        }
+        claimedKeys.set(claimKey, index);
+      }
+    }
+  }
+
+  // The steps' keys, so a bundle and a standalone action can't both claim the same entity
+  getNaturalKeys(payload: BundlePayload): NaturalKey[] {
+    return payload.steps.flatMap((step) =>
+      ActionHandlerFactory.getHandler(step.actionType)
+        .getNaturalKeys(step.payload)
+        .filter((key) => !parseStepReference(key.value))
+        .map((key) => ({ ...key, actionType: step.actionType }))
+    );
+  }
+
+  // Natural keys are always literal, so every step is checked, including steps with references
+  async findExistingKeys(db: DbClient, payload: BundlePayload): Promise<NaturalKey[]> {
+    const existingKeys: NaturalKey[] = [];
+
+    for (const step of payload.steps) {
+      const keys = await ActionHandlerFactory.getHandler(step.actionType).findExistingKeys(db, step.payload);
+      existingKeys.push(...keys.map((key) => ({ ...key, actionType: step.actionType })));
+    }
+
+    return existingKeys;
+  }
+
+  async precheck(db: DbClient, payload: BundlePayload): Promise<void> {
+    // Steps that depend on earlier results are checked once those results exist, at execution
+    for (const step of payload.steps) {
+      if (findStepReferences(step.payload).length > 0) {
+        continue;
+      }
+
+      await ActionHandlerFactory.getHandler(step.actionType).precheck(db, step.payload);
+    }
+  }
+
+  async execute(db: DbClient, payload: BundlePayload): Promise<any> {
+    // Runs on the caller's transaction, so a failing step rolls back the ones before it
+    const results: unknown[] = [];
+
+    for (const [index, step] of payload.steps.entries()) {
+      results.push(await this.executeStep(db, step, index, results));
+    }
+
+    return {
+      steps: payload.steps.map((step, index) => ({
+        actionType: step.actionType,
+        result: results[index],
+      })),
+    };
+  }
+
+  private async executeStep(db: DbClient, step: BundleStep, index: number, results: unknown[]) {
+    const handler = ActionHandlerFactory.getHandler(step.actionType);
+
+    try {
+      const stepPayload = resolveStepReferences(step.payload, results);
+
+      // Resolved values get the same checks a standalone action's payload got at submission
+      await handler.validate(stepPayload);
+      await handler.precheck(db, stepPayload);
+
+      return await handler.execute(db, stepPayload);
+    } catch (error) {
+      throw new Error(`Step ${index} (${step.actionType}) failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
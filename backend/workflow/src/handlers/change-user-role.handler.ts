@@ -0,0 +1,85 @@
+import { eq } from 'drizzle-orm';
+import { type DbClient } from '../db/index.js';
+import { users } from '../db/schema/index.js';
+import { type ChangeUserRolePayload } from '../types/workflow.type.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
+import { changeUserRoleSchema } from '../validators/workflow.validator.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+import { assertAnotherActiveChecker } from '../utils/active-checkers.js';
+
+/**
+ * Moves a user between MAKER and CHECKER. The role is carried in the JWT; tokens issued
+ * with the old role are refused from then on and the user has to sign in again.
+ */
+export class ChangeUserRoleHandler extends BaseActionHandler<ChangeUserRolePayload> {
+  async validate(payload: ChangeUserRolePayload): Promise<void> {
+    // Validate with Zod schema
+    const validationResult = changeUserRoleSchema.safeParse(payload);
+    if (!validationResult.success) {
+      throw new Error(`Validation failed: ${validationResult.error.message}`);
+    }
+  }
+
+  // Only one open role change per user
+  getNaturalKeys(payload: ChangeUserRolePayload): NaturalKey[] {
+    return [{ field: 'userId', value: payload.userId }];
+  }
+
+  async precheck(db: DbClient, payload: ChangeUserRolePayload): Promise<void> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, payload.userId),
+    });
+
+    if (!user) {
+      throw new UnprocessableEntityError(`User with ID ${payload.userId} does not exist`);
+    }
+
+    if (user.role === payload.role) {
+      throw new UnprocessableEntityError(`User ${payload.userId} already has the ${payload.role} role`);
+    }
+
+    if (user.role === 'CHECKER') {
+      await assertAnotherActiveChecker(db, user.id, 'Cannot remove the CHECKER role from the last active checker');
+    }
+  }
+
+  /**
+   * Record the role the user holds at submission so the checker sees what changes.
+   */
+  async prepare(db: DbClient, payload: ChangeUserRolePayload): Promise<ChangeUserRolePayload> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, payload.userId),
+    });
+
+    return { ...payload, previousRole: user!.role };
+  }
+
+  async execute(db: DbClient, payload: ChangeUserRolePayload): Promise<any> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, payload.userId),
+    });
+
+    // The checker approved a change from previousRole; anything else is no longer what they saw
+    if (user && payload.previousRole && user.role !== payload.previousRole) {
+      throw new UnprocessableEntityError(
+        `User ${payload.userId} no longer has the ${payload.previousRole} role; submit a new request`
+      );
+    }
+
+    await this.precheck(db, payload);
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ role: payload.role, updatedAt: new Date() })
+      .where(eq(users.id, payload.userId))
+      .returning({
+        id: users.id,
+        email: users.email,
+        username: users.username,
+        role: users.role,
+        updatedAt: users.updatedAt,
+      });
+
+    return updatedUser;
+  }
+}
@@ -1,9 +1,10 @@
 import { eq } from 'drizzle-orm';
-import { type Database } from '../db/index.js';
-import { accounts, users } from '../db/schema/index.js';
+import { type DbClient } from '../db/index.js';
+import { accounts, accountLedgerEntries, users } from '../db/schema/index.js';
 import { type CreateAccountPayload } from '../types/workflow.type.js';
-import { BaseActionHandler } from './base.handler.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
 import { createAccountSchema } from '../validators/workflow.validator.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
 
 export class CreateAccountHandler extends BaseActionHandler<CreateAccountPayload> {
   async validate(payload: CreateAccountPayload): Promise<void> {
@@ -14,15 +15,32 @@ export class CreateAccountHandler extends BaseActionHandler<CreateAccountPayload
     }
   }
 
-  async execute(db: Database, payload: CreateAccountPayload): Promise<any> {
+  getNaturalKeys(payload: CreateAccountPayload): NaturalKey[] {
+    return [{ field: 'accountNumber', value: payload.accountNumber }];
+  }
+
+  async findExistingKeys(db: DbClient, payload: CreateAccountPayload): Promise<NaturalKey[]> {
+    const existingAccount = await db.query.accounts.findFirst({
+      where: eq(accounts.accountNumber, payload.accountNumber),
+    });
+
+    return existingAccount ? this.getNaturalKeys(payload) : [];
+  }
+
+  async precheck(db: DbClient, payload: CreateAccountPayload): Promise<void> {
     // Check if user exists
     const user = await db.query.users.findFirst({
       where: eq(users.id, payload.userId),
     });
 
     if (!user) {
-      throw new Error(`User with ID ${payload.userId} does not exist`);
+      throw new UnprocessableEntityError(`User with ID ${payload.userId} does not exist`);
     }
+  }
+
+  async execute(db: DbClient, payload: CreateAccountPayload): Promise<any> {
+    // The user may have been removed since the action was submitted
+    await this.precheck(db, payload);
 
     // Check if account number already exists
     const existingAccount = await db.query.accounts.findFirst({
@@ -42,6 +60,64 @@ export class CreateAccountHandler extends BaseActionHandler<CreateAccountPayload
       currency: payload.currency || 'USD',
     }).returning();
 
+    // The opening balance is the account's first ledger entry
+    if (Number(newAccount.balance) > 0) {
+      await db.insert(accountLedgerEntries).values({
+        accountId: newAccount.id,
+        direction: 'credit',
+        amount: newAccount.balance,
+        balanceAfter: newAccount.balance,
+        reasonCode: 'opening_balance',
+      });
+    }
+
     return newAccount;
   }
-}
\ No newline at end of file
+
+  async compensate(db: DbClient, payload: CreateAccountPayload, executionResult: any): Promise<any> {
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.id, executionResult.id))
+      .for('update');
+
+    if (!account) {
+      throw new Error(`Account with number ${payload.accountNumber} no longer exists`);
+    }
+
+    const entries = await db.query.accountLedgerEntries.findMany({
+      where: eq(accountLedgerEntries.accountId, account.id),
+    });
+
+    // An account the ledger never mentions can simply go away
+    if (entries.length === 0) {
+      const [deletedAccount] = await db.delete(accounts).where(eq(accounts.id, account.id)).returning();
+      return deletedAccount;
+    }
+
+    // Undoing later adjustments is their own reversals' job
+    const openingEntry = entries.find((entry) => entry.reasonCode === 'opening_balance');
+    if (!openingEntry || entries.length > 1) {
+      throw new UnprocessableEntityError(`Account with number ${payload.accountNumber} has ledger activity and cannot be reversed`);
+    }
+
+    // The ledger is append-only, so the opening balance is offset and the account closed instead of deleted
+    const [closedAccount] = await db
+      .update(accounts)
+      .set({ balance: '0', closedAt: new Date(), updatedAt: new Date() })
+      .where(eq(accounts.id, account.id))
+      .returning();
+
+    const [reversalEntry] = await db.insert(accountLedgerEntries).values({
+      accountId: account.id,
+      direction: 'debit',
+      amount: openingEntry.amount,
+      balanceAfter: closedAccount.balance,
+      reasonCode: 'reversal',
+      note: `Reverses ledger entry ${openingEntry.id}`,
+      reversesEntryId: openingEntry.id,
+    }).returning();
+
+    return { ...closedAccount, reversalEntry };
+  }
+}
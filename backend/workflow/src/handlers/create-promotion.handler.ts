@@ -1,8 +1,8 @@
 import { eq } from 'drizzle-orm';
-import { type Database } from '../db/index.js';
+import { type DbClient } from '../db/index.js';
 import { promotions } from '../db/schema/index.js';
 import { type CreatePromotionPayload } from '../types/workflow.type.js';
-import { BaseActionHandler } from './base.handler.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
 import { createPromotionSchema } from '../validators/workflow.validator.js';
 
 export class CreatePromotionHandler extends BaseActionHandler<CreatePromotionPayload> {
@@ -32,7 +32,19 @@ export class CreatePromotionHandler extends BaseActionHandler<CreatePromotionPay
     }
   }
 
-  async execute(db: Database, payload: CreatePromotionPayload): Promise<any> {
+  getNaturalKeys(payload: CreatePromotionPayload): NaturalKey[] {
+    return [{ field: 'code', value: payload.code }];
+  }
+
+  async findExistingKeys(db: DbClient, payload: CreatePromotionPayload): Promise<NaturalKey[]> {
+    const existingPromotion = await db.query.promotions.findFirst({
+      where: eq(promotions.code, payload.code),
+    });
+
+    return existingPromotion ? this.getNaturalKeys(payload) : [];
+  }
+
+  async execute(db: DbClient, payload: CreatePromotionPayload): Promise<any> {
     // Check if promotion code already exists
     const existingPromotion = await db.query.promotions.findFirst({
       where: eq(promotions.code, payload.code),
@@ -55,4 +67,19 @@ export class CreatePromotionHandler extends BaseActionHandler<CreatePromotionPay
 
     return newPromotion;
   }
-}
\ No newline at end of file
+
+  async compensate(db: DbClient, payload: CreatePromotionPayload, executionResult: any): Promise<any> {
+    // Promotions may already have been handed out, so they are switched off rather than deleted
+    const [deactivatedPromotion] = await db
+      .update(promotions)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(promotions.id, executionResult.id))
+      .returning();
+
+    if (!deactivatedPromotion) {
+      throw new Error(`Promotion with code ${payload.code} no longer exists`);
+    }
+
+    return deactivatedPromotion;
+  }
+}
@@ -1,8 +1,8 @@
-import { eq } from 'drizzle-orm';
-import { type Database } from '../db/index.js';
+import { eq, or } from 'drizzle-orm';
+import { type DbClient } from '../db/index.js';
 import { users } from '../db/schema/index.js';
 import { type CreateUserPayload } from '../types/workflow.type.js';
-import { BaseActionHandler } from './base.handler.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
 import { createUserSchema } from '../validators/workflow.validator.js';
 
 export class CreateUserHandler extends BaseActionHandler<CreateUserPayload> {
@@ -14,7 +14,24 @@ export class CreateUserHandler extends BaseActionHandler<CreateUserPayload> {
     }
   }
 
-  async execute(db: Database, payload: CreateUserPayload): Promise<any> {
+  getNaturalKeys(payload: CreateUserPayload): NaturalKey[] {
+    return [
+      { field: 'email', value: payload.email },
+      { field: 'username', value: payload.username },
+    ];
+  }
+
+  async findExistingKeys(db: DbClient, payload: CreateUserPayload): Promise<NaturalKey[]> {
+    const existingUsers = await db.query.users.findMany({
+      where: or(eq(users.email, payload.email), eq(users.username, payload.username)),
+    });
+
+    return this.getNaturalKeys(payload).filter((key) =>
+      existingUsers.some((user) => user[key.field as 'email' | 'username'] === key.value)
+    );
+  }
+
+  async execute(db: DbClient, payload: CreateUserPayload): Promise<any> {
     // Check if user already exists
     const existingUser = await db.query.users.findFirst({
       where: eq(users.email, payload.email),
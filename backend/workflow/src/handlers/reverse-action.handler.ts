@@ -0,0 +1,69 @@
+import { eq } from 'drizzle-orm';
+import { type DbClient } from '../db/index.js';
+import { workflowActions } from '../db/schema/index.js';
+import { ActionStatus, type ReverseActionPayload } from '../types/workflow.type.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
+import { ActionHandlerFactory } from './action-handler.factory.js';
+import { reverseActionPayloadSchema } from '../validators/workflow.validator.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+
+export class ReverseActionHandler extends BaseActionHandler<ReverseActionPayload> {
+  async validate(payload: ReverseActionPayload): Promise<void> {
+    // Validate with Zod schema
+    const validationResult = reverseActionPayloadSchema.safeParse(payload);
+    if (!validationResult.success) {
+      throw new Error(`Validation failed: ${validationResult.error.message}`);
+    }
+  }
+
+  async precheck(db: DbClient, payload: ReverseActionPayload): Promise<void> {
+    await this.getReversibleAction(db, payload.originalActionId);
+  }
+
+  // Only one reversal of an action can be open at a time
+  getNaturalKeys(payload: ReverseActionPayload): NaturalKey[] {
+    return [{ field: 'originalActionId', value: payload.originalActionId }];
+  }
+
+  async findExistingKeys(db: DbClient, payload: ReverseActionPayload): Promise<NaturalKey[]> {
+    const original = await db.query.workflowActions.findFirst({
+      where: eq(workflowActions.id, payload.originalActionId),
+    });
+
+    return original?.status === ActionStatus.REVERSED ? this.getNaturalKeys(payload) : [];
+  }
+
+  async execute(db: DbClient, payload: ReverseActionPayload): Promise<any> {
+    // The original may have changed since the reversal was requested
+    const original = await this.getReversibleAction(db, payload.originalActionId);
+    const handler = ActionHandlerFactory.getHandler(original.actionType);
+
+    const compensation = await handler.compensate!(db, original.payload, original.executionResult);
+
+    return {
+      originalActionId: original.id,
+      originalActionType: original.actionType,
+      compensation,
+    };
+  }
+
+  private async getReversibleAction(db: DbClient, actionId: string) {
+    const original = await db.query.workflowActions.findFirst({
+      where: eq(workflowActions.id, actionId),
+    });
+
+    if (!original) {
+      throw new UnprocessableEntityError(`Action with ID ${actionId} does not exist`);
+    }
+
+    if (original.status !== ActionStatus.EXECUTED) {
+      throw new UnprocessableEntityError(`Only executed actions can be reversed; action ${actionId} is ${original.status}`);
+    }
+
+    if (!ActionHandlerFactory.getHandler(original.actionType).compensate) {
+      throw new UnprocessableEntityError(`${original.actionType} actions cannot be reversed`);
+    }
+
+    return original;
+  }
+}
@@ -0,0 +1,133 @@
+import { and, eq, ne, or } from 'drizzle-orm';
+import { type DbClient } from '../db/index.js';
+import { users, type User } from '../db/schema/index.js';
+import { ActionTypes, type UpdateUserPayload, type UserSnapshot } from '../types/workflow.type.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
+import { updateUserSchema } from '../validators/workflow.validator.js';
+import { diffPayload } from '../utils/payload-diff.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+
+const EDITABLE_FIELDS = ['email', 'username', 'fullName'] as const;
+
+function toSnapshot(user: User): UserSnapshot {
+  return {
+    email: user.email,
+    username: user.username,
+    fullName: user.fullName,
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+export class UpdateUserHandler extends BaseActionHandler<UpdateUserPayload> {
+  async validate(payload: UpdateUserPayload): Promise<void> {
+    // Validate with Zod schema
+    const validationResult = updateUserSchema.safeParse(payload);
+    if (!validationResult.success) {
+      throw new Error(`Validation failed: ${validationResult.error.message}`);
+    }
+  }
+
+  // Filed under create_user so a pending creation and a pending update can't claim the same value
+  getNaturalKeys(payload: UpdateUserPayload): NaturalKey[] {
+    const keys: NaturalKey[] = [];
+    if (payload.email !== undefined) {
+      keys.push({ field: 'email', value: payload.email, actionType: ActionTypes.CREATE_USER });
+    }
+    if (payload.username !== undefined) {
+      keys.push({ field: 'username', value: payload.username, actionType: ActionTypes.CREATE_USER });
+    }
+    return keys;
+  }
+
+  async findExistingKeys(db: DbClient, payload: UpdateUserPayload): Promise<NaturalKey[]> {
+    const keys = this.getNaturalKeys(payload);
+    if (keys.length === 0) {
+      return [];
+    }
+
+    // The user's own current values are not a conflict
+    const otherUsers = await db.query.users.findMany({
+      where: and(
+        ne(users.id, payload.userId),
+        or(...keys.map((key) => eq(users[key.field as 'email' | 'username'], key.value)))
+      ),
+    });
+
+    return keys.filter((key) =>
+      otherUsers.some((user) => user[key.field as 'email' | 'username'] === key.value)
+    );
+  }
+
+  async precheck(db: DbClient, payload: UpdateUserPayload): Promise<void> {
+    await this.getUser(db, payload.userId);
+  }
+
+  async prepare(db: DbClient, payload: UpdateUserPayload): Promise<UpdateUserPayload> {
+    const before = toSnapshot(await this.getUser(db, payload.userId));
+
+    const requested = Object.fromEntries(
+      EDITABLE_FIELDS.filter((field) => payload[field] !== undefined).map((field) => [field, payload[field]])
+    );
+    const current = Object.fromEntries(Object.keys(requested).map((field) => [field, before[field as keyof UserSnapshot]]));
+    const changes = diffPayload(current, requested);
+
+    if (changes.length === 0) {
+      throw new UnprocessableEntityError(`Update does not change user ${payload.userId}`);
+    }
+
+    return { ...payload, before, changes };
+  }
+
+  async execute(db: DbClient, payload: UpdateUserPayload): Promise<any> {
+    const user = await this.getUser(db, payload.userId);
+
+    // The checker approved these changes against the row as it was at submission
+    if (payload.before) {
+      const current = toSnapshot(user);
+      const changedFields = (Object.keys(current) as (keyof UserSnapshot)[])
+        .filter((field) => current[field] !== payload.before![field]);
+      if (changedFields.length > 0) {
+        throw new Error(`User ${payload.userId} has changed since the update was submitted (${changedFields.join(', ')})`);
+      }
+    }
+
+    const existingKeys = await this.findExistingKeys(db, payload);
+    if (existingKeys.length > 0) {
+      throw new Error(`${existingKeys.map((key) => key.field).join(', ')} already in use by another user`);
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        email: payload.email,
+        username: payload.username,
+        fullName: payload.fullName,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, payload.userId))
+      .returning({
+        id: users.id,
+        email: users.email,
+        username: users.username,
+        fullName: users.fullName,
+        updatedAt: users.updatedAt,
+      });
+
+    return {
+      ...updatedUser,
+      changes: payload.changes,
+    };
+  }
+
+  private async getUser(db: DbClient, userId: string) {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+    });
+
+    if (!user) {
+      throw new UnprocessableEntityError(`User with ID ${userId} does not exist`);
+    }
+
+    return user;
+  }
+}
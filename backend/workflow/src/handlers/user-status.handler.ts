@@ -0,0 +1,76 @@
+import { eq } from 'drizzle-orm';
+import { type DbClient } from '../db/index.js';
+import { users } from '../db/schema/index.js';
+import { type DeactivateUserPayload, type ReactivateUserPayload } from '../types/workflow.type.js';
+import { BaseActionHandler, type NaturalKey } from './base.handler.js';
+import { userStatusChangeSchema } from '../validators/workflow.validator.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+import { assertAnotherActiveChecker } from '../utils/active-checkers.js';
+
+type UserStatusPayload = DeactivateUserPayload | ReactivateUserPayload;
+
+/**
+ * Switches users.isActive. Deactivation and reactivation differ only in the value they set,
+ * so each is a subclass that names it.
+ */
+abstract class UserStatusHandler<T extends UserStatusPayload> extends BaseActionHandler<T> {
+  protected abstract readonly isActive: boolean;
+
+  async validate(payload: T): Promise<void> {
+    // Validate with Zod schema
+    const validationResult = userStatusChangeSchema.safeParse(payload);
+    if (!validationResult.success) {
+      throw new Error(`Validation failed: ${validationResult.error.message}`);
+    }
+  }
+
+  // Only one open request per user and direction
+  getNaturalKeys(payload: T): NaturalKey[] {
+    return [{ field: 'userId', value: payload.userId }];
+  }
+
+  async precheck(db: DbClient, payload: T): Promise<void> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, payload.userId),
+    });
+
+    if (!user) {
+      throw new UnprocessableEntityError(`User with ID ${payload.userId} does not exist`);
+    }
+
+    if (user.isActive === this.isActive) {
+      throw new UnprocessableEntityError(`User ${payload.userId} is already ${this.isActive ? 'active' : 'inactive'}`);
+    }
+
+    if (!this.isActive && user.role === 'CHECKER') {
+      await assertAnotherActiveChecker(db, user.id, 'Cannot deactivate the last active checker');
+    }
+  }
+
+  async execute(db: DbClient, payload: T): Promise<any> {
+    // The user may have been switched by another action since this one was submitted
+    await this.precheck(db, payload);
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ isActive: this.isActive, updatedAt: new Date() })
+      .where(eq(users.id, payload.userId))
+      .returning({
+        id: users.id,
+        email: users.email,
+        username: users.username,
+        isActive: users.isActive,
+        updatedAt: users.updatedAt,
+      });
+
+    return updatedUser;
+  }
+}
+
+export class DeactivateUserHandler extends UserStatusHandler<DeactivateUserPayload> {
+  protected readonly isActive = false;
+}
+
+export class ReactivateUserHandler extends UserStatusHandler<ReactivateUserPayload> {
+  protected readonly isActive = true;
+}
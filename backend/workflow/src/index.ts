@@ -4,6 +4,8 @@ import { logger } from 'hono/logger';
 import { cors } from 'hono/cors';
 import workflowRoutes from './routes/workflow.route.js';
 import authRoutes from './routes/auth.route.js';
+import accountRoutes from './routes/account.route.js';
+import { WorkflowScheduler } from './services/workflow-scheduler.service.js';
 
 import { runMigrations } from './db/migrate.js';
 
@@ -27,6 +29,7 @@ app.get('/health', (c) => {
 // API Routes
 app.route('/api/auth', authRoutes);
 app.route('/api/workflow', workflowRoutes);
+app.route('/api/accounts', accountRoutes);
 
 // 404 handler
 app.notFound((c) => {
@@ -61,4 +64,7 @@ serve({
   port,
 });
 
+// Executes approved actions once their effective date arrives and expires stale pending ones
+new WorkflowScheduler().start();
+
 export default app;
\ No newline at end of file
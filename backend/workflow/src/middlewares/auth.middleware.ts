@@ -1,8 +1,12 @@
 import type { Context, Next } from 'hono';
 import { jwt } from 'hono/jwt';
+import { every } from 'hono/combine';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users } from '../db/schema/users.js';
 import { env } from '../config.js';
 
-export const jwtMiddleware = (c: Context, next: Next) => {
+const verifyToken = (c: Context, next: Next) => {
     const middleware = jwt({
         secret: env.JWT_SECRET,
         alg: 'HS256',
@@ -10,6 +14,27 @@ export const jwtMiddleware = (c: Context, next: Next) => {
     return middleware(c, next);
 };
 
+// A token outlives changes to its user, so the account is checked on every request: a deactivated
+// user or one whose role changed since the token was issued has to sign in again
+const requireCurrentUser = async (c: Context, next: Next) => {
+    const payload = c.get('jwtPayload');
+    const [user] = await db
+        .select({ isActive: users.isActive, role: users.role })
+        .from(users)
+        .where(eq(users.id, payload.id))
+        .limit(1);
+
+    if (!user?.isActive) {
+        return c.json({ error: 'Unauthorized: account is inactive' }, 401);
+    }
+    if (user.role !== payload.role) {
+        return c.json({ error: 'Unauthorized: role has changed, sign in again' }, 401);
+    }
+    await next();
+};
+
+export const jwtMiddleware = every(verifyToken, requireCurrentUser);
+
 export const isAdmin = async (c: Context, next: Next) => {
     const payload = c.get('jwtPayload');
     if (payload.role !== 'CHECKER') {
@@ -0,0 +1,54 @@
+import {
+  ActionTypes,
+  type BalanceAdjustmentPayload,
+  type BundlePayload,
+  type CreateAccountPayload,
+  type CreatePromotionPayload,
+} from '../types/workflow.type.js';
+
+export interface ApprovalPolicy {
+  requiredApprovals: number; // distinct checkers that must approve before execution
+  rejectionIsFinal: boolean; // a single rejection rejects the action outright
+}
+
+type ApprovalPolicyResolver = (payload: any) => ApprovalPolicy;
+
+const SINGLE_CHECKER: ApprovalPolicy = { requiredApprovals: 1, rejectionIsFinal: true };
+const DUAL_CHECKER: ApprovalPolicy = { requiredApprovals: 2, rejectionIsFinal: true };
+
+const LARGE_OPENING_BALANCE = 100000;
+const LARGE_BALANCE_ADJUSTMENT = 10000;
+const HIGH_VALUE_PERCENTAGE_DISCOUNT = 50;
+const HIGH_VALUE_FIXED_DISCOUNT = 1000;
+
+export class ApprovalPolicyRegistry {
+  private static resolvers: Record<string, ApprovalPolicyResolver> = {
+    [ActionTypes.CREATE_ACCOUNT]: (payload: CreateAccountPayload) =>
+      parseFloat(payload.balance || '0') >= LARGE_OPENING_BALANCE ? DUAL_CHECKER : SINGLE_CHECKER,
+    [ActionTypes.BALANCE_ADJUSTMENT]: (payload: BalanceAdjustmentPayload) =>
+      parseFloat(payload.amount) >= LARGE_BALANCE_ADJUSTMENT ? DUAL_CHECKER : SINGLE_CHECKER,
+    [ActionTypes.CREATE_PROMOTION]: (payload: CreatePromotionPayload) => {
+      const discountValue = parseFloat(payload.discountValue);
+      const isHighValue = payload.discountType === 'percentage'
+        ? discountValue >= HIGH_VALUE_PERCENTAGE_DISCOUNT
+        : discountValue >= HIGH_VALUE_FIXED_DISCOUNT;
+      return isHighValue ? DUAL_CHECKER : SINGLE_CHECKER;
+    },
+    // A bundle is reviewed once, so it needs the quorum of its most demanding step
+    [ActionTypes.BUNDLE]: (payload: BundlePayload) => ({
+      requiredApprovals: Math.max(
+        ...payload.steps.map((step) => ApprovalPolicyRegistry.getPolicy(step.actionType, step.payload).requiredApprovals)
+      ),
+      rejectionIsFinal: true,
+    }),
+  };
+
+  static getPolicy(actionType: string, payload: unknown): ApprovalPolicy {
+    const resolver = this.resolvers[actionType];
+    return resolver ? resolver(payload) : SINGLE_CHECKER;
+  }
+
+  static registerPolicy(actionType: string, resolver: ApprovalPolicyResolver): void {
+    this.resolvers[actionType] = resolver;
+  }
+}
@@ -0,0 +1,40 @@
+import { ActionTypes } from '../types/workflow.type.js';
+
+export interface ExpiryPolicy {
+  pendingTtlHours: number; // how long an action may wait for review before it expires
+  approvalValidityHours: number; // how long an approval may be acted on before it lapses
+}
+
+const HOURS_PER_DAY = 24;
+
+const DEFAULT_EXPIRY: ExpiryPolicy = { pendingTtlHours: 30 * HOURS_PER_DAY, approvalValidityHours: 7 * HOURS_PER_DAY };
+
+function addHours(date: Date, hours: number) {
+  return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
+export class ExpiryPolicyRegistry {
+  private static policies: Record<string, ExpiryPolicy> = {
+    // Promotions are time-sensitive; a week-old request is usually obsolete, but an approved
+    // one is often scheduled to go live weeks later
+    [ActionTypes.CREATE_PROMOTION]: { pendingTtlHours: 7 * HOURS_PER_DAY, approvalValidityHours: 30 * HOURS_PER_DAY },
+  };
+
+  static getPolicy(actionType: string): ExpiryPolicy {
+    return this.policies[actionType] || DEFAULT_EXPIRY;
+  }
+
+  static registerPolicy(actionType: string, policy: ExpiryPolicy): void {
+    this.policies[actionType] = policy;
+  }
+
+  // When an action submitted (or resubmitted) at `from` stops being reviewable
+  static getPendingExpiry(actionType: string, from: Date = new Date()): Date {
+    return addHours(from, this.getPolicy(actionType).pendingTtlHours);
+  }
+
+  // When an approval given at `from` can no longer be executed on
+  static getApprovalExpiry(actionType: string, from: Date = new Date()): Date {
+    return addHours(from, this.getPolicy(actionType).approvalValidityHours);
+  }
+}
@@ -0,0 +1,23 @@
+import { Hono, type Context } from 'hono';
+import { AccountController } from '../controllers/account.controller.js';
+import { jwtMiddleware } from '../middlewares/auth.middleware.js';
+
+const accountRoutes = new Hono();
+
+// Apply JWT middleware to all account routes
+accountRoutes.use('*', jwtMiddleware);
+
+const accountController = new AccountController();
+
+/**
+ * @route GET /api/accounts/:id/ledger
+ * @description Read an account's ledger entries, newest first, with its current balance
+ * @param id - Account ID
+ * @query {
+ *   page?: number,
+ *   limit?: number (default 20)
+ * }
+ */
+accountRoutes.get('/:id/ledger', (c: Context) => accountController.getLedger(c));
+
+export default accountRoutes;
@@ -33,6 +33,11 @@ auth.post('/register', async (c) => {
 
         const { email, username, password, role, fullName } = result.data;
 
+        // Everyone starts as a maker; elevated roles are granted through an approved change_user_role action
+        if (role && role !== 'MAKER') {
+            return c.json({ error: `Cannot self-assign the ${role} role; request it through a change_user_role action` }, 403);
+        }
+
         // Check if user exists
         const existingUser = await db.select().from(users).where(eq(users.email, email)).limit(1);
         if (existingUser.length > 0) {
@@ -45,7 +50,7 @@ auth.post('/register', async (c) => {
             email,
             username,
             password: hashedPassword,
-            role: role || 'MAKER',
+            role: 'MAKER',
             fullName,
         }).returning();
 
@@ -89,6 +94,10 @@ auth.post('/login', async (c) => {
             return c.json({ error: 'Invalid email or password' }, 401);
         }
 
+        if (!user.isActive) {
+            return c.json({ error: 'Account is deactivated' }, 403);
+        }
+
         const token = await sign(
             { id: user.id, email: user.email, role: user.role },
             env.JWT_SECRET
@@ -1,6 +1,8 @@
 import { Hono, type Context } from 'hono';
 import { WorkflowController } from '../controllers/workflow.controller.js';
 import { ActionTypesController } from '../controllers/action-types.controller.js';
+import { WorkflowDefinitionController } from '../controllers/workflow-definition.controller.js';
+import { AuditController } from '../controllers/audit.controller.js';
 import { jwtMiddleware, requireRole } from '../middlewares/auth.middleware.js';
 
 const workflowRoutes = new Hono();
@@ -10,6 +12,8 @@ workflowRoutes.use('*', jwtMiddleware);
 
 const workflowController = new WorkflowController();
 const actionTypesController = new ActionTypesController();
+const workflowDefinitionController = new WorkflowDefinitionController();
+const auditController = new AuditController();
 
 /**
  * @route GET /api/workflow/action-types
@@ -17,13 +21,20 @@ const actionTypesController = new ActionTypesController();
  */
 workflowRoutes.get('/action-types', (c: Context) => actionTypesController.getActionTypes(c));
 
+/**
+ * @route GET /api/workflow/definitions/:actionType
+ * @description Get the lifecycle (states and transitions) an action type follows
+ * @param actionType - Action type, falls back to the default definition
+ */
+workflowRoutes.get('/definitions/:actionType', (c: Context) => workflowDefinitionController.getDefinition(c));
+
 /**
  * @route POST /api/workflow/actions
  * @description Create a new workflow action (maker creates an action)
  * @body {
  *   actionType: string,
  *   payload: object,
- *   makerId: string
+ *   makerId?: string (deprecated; must match the authenticated user)
  * }
  */
 workflowRoutes.post('/actions', requireRole('MAKER'), (c: Context) => workflowController.createAction(c));
@@ -32,8 +43,9 @@ workflowRoutes.post('/actions', requireRole('MAKER'), (c: Context) => workflowCo
  * @route GET /api/workflow/actions
  * @description List all workflow actions with optional filters
  * @query {
- *   status?: 'pending' | 'approved' | 'rejected',
- *   actionType?: 'create_user' | 'create_account' | 'create_promotion',
+ *   status?: 'pending' | 'rejected' | 'changes_requested' | 'executing' | 'executed' | 'execution_failed' | 'withdrawn',
+ *   excludeStatus?: string (comma-separated),
+ *   actionType?: string (any registered action type, e.g. 'create_user' or 'reverse_action'),
  *   page?: number,
  *   limit?: number
  * }
@@ -49,14 +61,107 @@ workflowRoutes.get('/actions/:id', (c: Context) => workflowController.getActionD
 
 /**
  * @route POST /api/workflow/actions/:id/review
- * @description Review a workflow action (checker approves or rejects)
+ * @description Review a workflow action (checker approves, rejects or requests changes).
+ * Who may review and in which state is decided by the action's workflow definition.
+ * @param id - Action ID
+ * @body {
+ *   status: 'approved' | 'rejected' | 'changes_requested',
+ *   checkerId?: string (deprecated; must match the authenticated user),
+ *   reviewComment?: string (required when requesting changes),
+ *   payloadHash?: string (required to approve)
+ * }
+ */
+workflowRoutes.post('/actions/:id/review', (c: Context) => workflowController.reviewAction(c));
+
+/**
+ * @route POST /api/workflow/actions/:id/withdraw
+ * @description Withdraw a pending action (only the maker who submitted it)
  * @param id - Action ID
  * @body {
- *   status: 'approved' | 'rejected',
- *   checkerId: string,
- *   reviewComment?: string
+ *   reason?: string
  * }
  */
-workflowRoutes.post('/actions/:id/review', requireRole('CHECKER'), (c: Context) => workflowController.reviewAction(c));
+workflowRoutes.post('/actions/:id/withdraw', requireRole('MAKER'), (c: Context) => workflowController.withdrawAction(c));
+
+/**
+ * @route POST /api/workflow/actions/:id/resubmit
+ * @description Resubmit an action sent back with changes requested (only the maker who submitted it).
+ * The edited payload is re-validated and recorded as a new revision.
+ * @param id - Action ID
+ * @body {
+ *   payload: object,
+ *   comment?: string
+ * }
+ */
+workflowRoutes.post('/actions/:id/resubmit', requireRole('MAKER'), (c: Context) => workflowController.resubmitAction(c));
+
+/**
+ * @route POST /api/workflow/actions/:id/reverse
+ * @description Open a reversal of an executed action. The reversal is a new pending action
+ * linked to the original; the created entity is only removed or deactivated once a checker
+ * approves it.
+ * @param id - Action ID
+ * @body {
+ *   reason: string
+ * }
+ */
+workflowRoutes.post('/actions/:id/reverse', requireRole('MAKER'), (c: Context) => workflowController.reverseAction(c));
+
+/**
+ * @route POST /api/workflow/actions/:id/retry-execution
+ * @description Re-run the handler for an approved action whose execution failed (retry_execution transition)
+ * @param id - Action ID
+ * @body {
+ *   checkerId?: string (deprecated; must match the authenticated user)
+ * }
+ */
+workflowRoutes.post('/actions/:id/retry-execution', (c: Context) => workflowController.retryExecution(c));
+
+/**
+ * @route GET /api/workflow/actions/:id/transitions
+ * @description List the transitions the current user may trigger on an action
+ * @param id - Action ID
+ */
+workflowRoutes.get('/actions/:id/transitions', (c: Context) => workflowController.getAvailableTransitions(c));
+
+/**
+ * @route POST /api/workflow/actions/:id/transitions/:transition
+ * @description Trigger any transition declared by the action's workflow definition
+ * @param id - Action ID
+ * @param transition - Transition name, e.g. 'approve'
+ * @body {
+ *   comment?: string,
+ *   payloadHash?: string (required for 'approve')
+ * }
+ */
+workflowRoutes.post('/actions/:id/transitions/:transition', (c: Context) => workflowController.transitionAction(c));
+
+/**
+ * @route POST /api/workflow/actions/:id/preview
+ * @description Dry-run the action's handler in a transaction that is always rolled back and
+ * return the rows it would create or the error it would raise. Nothing is persisted.
+ * @param id - Action ID
+ */
+workflowRoutes.post('/actions/:id/preview', requireRole('CHECKER'), (c: Context) => workflowController.previewAction(c));
+
+/**
+ * @route GET /api/workflow/actions/:id/executions
+ * @description List every execution attempt recorded for an action
+ * @param id - Action ID
+ */
+workflowRoutes.get('/actions/:id/executions', (c: Context) => workflowController.getExecutionAttempts(c));
+
+/**
+ * @route GET /api/workflow/actions/:id/events
+ * @description Read the append-only audit log of an action, oldest first
+ * @param id - Action ID
+ */
+workflowRoutes.get('/actions/:id/events', (c: Context) => workflowController.getActionEvents(c));
+
+/**
+ * @route GET /api/workflow/audit/verify
+ * @description Walk the audit event hash chain and report the first broken link, if any
+ */
+workflowRoutes.get('/audit/verify', (c: Context) => auditController.verifyChain(c));
 
 export default workflowRoutes;
\ No newline at end of file
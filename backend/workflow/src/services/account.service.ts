@@ -0,0 +1,54 @@
+import { count, desc, eq } from 'drizzle-orm';
+import { type Database, db } from '../db/index.js';
+import { accounts, accountLedgerEntries } from '../db/schema/index.js';
+import { NotFoundError } from '../errors/http.error.js';
+
+export class AccountService {
+  private db: Database;
+
+  constructor(database?: Database) {
+    this.db = database || db;
+  }
+
+  /**
+   * Read an account's ledger, newest entry first, together with the current balance.
+   */
+  async getLedger(accountId: string, { page = 1, limit = 20 }: { page?: number; limit?: number } = {}) {
+    const account = await this.db.query.accounts.findFirst({
+      where: eq(accounts.id, accountId),
+    });
+
+    if (!account) {
+      throw new NotFoundError(`Account with ID ${accountId} not found`);
+    }
+
+    const entries = await this.db.query.accountLedgerEntries.findMany({
+      where: eq(accountLedgerEntries.accountId, accountId),
+      orderBy: [desc(accountLedgerEntries.createdAt)],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(accountLedgerEntries)
+      .where(eq(accountLedgerEntries.accountId, accountId));
+
+    return {
+      account: {
+        id: account.id,
+        accountNumber: account.accountNumber,
+        balance: account.balance,
+        currency: account.currency,
+        closedAt: account.closedAt,
+      },
+      data: entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
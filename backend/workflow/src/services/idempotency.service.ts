@@ -0,0 +1,54 @@
+import { and, eq } from 'drizzle-orm';
+import { type Database, type DbClient, type Transaction, db } from '../db/index.js';
+import { idempotencyKeys } from '../db/schema/index.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+
+export class IdempotencyService {
+  private db: Database;
+
+  constructor(database?: Database) {
+    this.db = database || db;
+  }
+
+  /**
+   * Return the stored response for a key the maker already used, or null if the key is new.
+   * Reusing a key for a different request body is a client bug and is refused.
+   */
+  async lookup(makerId: string, key: string, requestHash: string, client: DbClient = this.db) {
+    const record = await client.query.idempotencyKeys.findFirst({
+      where: and(eq(idempotencyKeys.makerId, makerId), eq(idempotencyKeys.key, key)),
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    if (record.requestHash !== requestHash) {
+      throw new UnprocessableEntityError('Idempotency-Key has already been used with a different request body');
+    }
+
+    return record;
+  }
+
+  /**
+   * Reserve the key inside the transaction that performs the request. A concurrent request
+   * with the same key blocks on the unique index until this transaction ends, so only one
+   * of them gets to do the work. Returns false if the key was taken in the meantime.
+   */
+  async claim(tx: Transaction, makerId: string, key: string, requestHash: string) {
+    const [claimed] = await tx
+      .insert(idempotencyKeys)
+      .values({ makerId, key, requestHash })
+      .onConflictDoNothing({ target: [idempotencyKeys.makerId, idempotencyKeys.key] })
+      .returning();
+
+    return !!claimed;
+  }
+
+  async complete(tx: Transaction, makerId: string, key: string, actionId: string, responseStatus: number, responseBody: unknown) {
+    await tx
+      .update(idempotencyKeys)
+      .set({ actionId, responseStatus, responseBody })
+      .where(and(eq(idempotencyKeys.makerId, makerId), eq(idempotencyKeys.key, key)));
+  }
+}
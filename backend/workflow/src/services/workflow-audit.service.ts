@@ -0,0 +1,178 @@
+import { asc, desc, eq, gt, isNotNull, sql } from 'drizzle-orm';
+import { type Database, type DbClient, db } from '../db/index.js';
+import { workflowActionEvents, type WorkflowAction, type WorkflowActionEvent } from '../db/schema/index.js';
+import { type WorkflowActor } from '../types/workflow.type.js';
+import { canonicalHash } from '../utils/canonical-hash.js';
+
+export interface WorkflowEventInput {
+  eventType: string;
+  actor: WorkflowActor;
+  before?: WorkflowAction | null;
+  after?: WorkflowAction | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface BrokenLink {
+  eventId: string;
+  sequence: number;
+  actionId: string;
+  reason: string;
+}
+
+// Arbitrary key for the advisory lock that serializes appends to the chain
+const AUDIT_CHAIN_LOCK = 7_301_008;
+const VERIFY_BATCH_SIZE = 500;
+
+type HashedFields = Pick<
+  WorkflowActionEvent,
+  | 'actionId'
+  | 'eventType'
+  | 'fromStatus'
+  | 'toStatus'
+  | 'actorId'
+  | 'actorRole'
+  | 'ipAddress'
+  | 'userAgent'
+  | 'before'
+  | 'after'
+  | 'metadata'
+  | 'previousHash'
+  | 'createdAt'
+>;
+
+function hashEvent(event: HashedFields) {
+  return canonicalHash({
+    actionId: event.actionId,
+    eventType: event.eventType,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    actorId: event.actorId,
+    actorRole: event.actorRole,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    before: event.before,
+    after: event.after,
+    metadata: event.metadata,
+    previousHash: event.previousHash,
+    createdAt: event.createdAt,
+  });
+}
+
+export class WorkflowAuditService {
+  private db: Database;
+
+  constructor(database?: Database) {
+    this.db = database || db;
+  }
+
+  /**
+   * Append an event to the action's audit log. Pass the surrounding transaction
+   * so the event commits or rolls back together with the change it describes.
+   */
+  async record(client: DbClient, { eventType, actor, before = null, after = null, metadata }: WorkflowEventInput) {
+    const actionId = after?.id ?? before?.id;
+    if (!actionId) {
+      throw new Error('An audit event needs a before or after snapshot');
+    }
+
+    // Nested calls become a savepoint; the advisory lock is held until the outer transaction ends
+    return client.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+
+      const [last] = await tx
+        .select({ hash: workflowActionEvents.hash })
+        .from(workflowActionEvents)
+        .where(isNotNull(workflowActionEvents.hash))
+        .orderBy(desc(workflowActionEvents.sequence))
+        .limit(1);
+
+      // Snapshots go through JSON so the hash covers exactly what jsonb will return
+      const fields: HashedFields = {
+        actionId,
+        eventType,
+        fromStatus: before?.status ?? null,
+        toStatus: after?.status ?? null,
+        actorId: actor.id,
+        actorRole: actor.role,
+        ipAddress: actor.context?.ipAddress ?? null,
+        userAgent: actor.context?.userAgent ?? null,
+        before: before && JSON.parse(JSON.stringify(before)),
+        after: after && JSON.parse(JSON.stringify(after)),
+        metadata: metadata ? JSON.parse(JSON.stringify(metadata)) : null,
+        previousHash: last?.hash ?? null,
+        createdAt: new Date(),
+      };
+
+      const [event] = await tx.insert(workflowActionEvents).values({
+        ...fields,
+        hash: hashEvent(fields),
+      }).returning();
+
+      return event;
+    });
+  }
+
+  async listEvents(actionId: string) {
+    return this.db.query.workflowActionEvents.findMany({
+      where: eq(workflowActionEvents.actionId, actionId),
+      orderBy: [asc(workflowActionEvents.sequence)],
+    });
+  }
+
+  /**
+   * Walk the whole chain in sequence order and stop at the first event whose
+   * link to its predecessor or whose own content no longer matches its hash.
+   */
+  async verifyChain() {
+    let eventsChecked = 0;
+    let unchainedEvents = 0;
+    let previousHash: string | null = null;
+    let lastSequence = 0;
+    let firstBrokenLink: BrokenLink | null = null;
+
+    while (!firstBrokenLink) {
+      const batch = await this.db
+        .select()
+        .from(workflowActionEvents)
+        .where(gt(workflowActionEvents.sequence, lastSequence))
+        .orderBy(asc(workflowActionEvents.sequence))
+        .limit(VERIFY_BATCH_SIZE);
+
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const event of batch) {
+        lastSequence = event.sequence;
+
+        const reason = !event.hash
+          ? previousHash === null ? null : 'Event has no hash'
+          : event.previousHash !== previousHash
+            ? 'Previous hash does not match the preceding event'
+            : hashEvent(event) !== event.hash
+              ? 'Event content does not match its hash'
+              : null;
+
+        if (reason) {
+          firstBrokenLink = { eventId: event.id, sequence: event.sequence, actionId: event.actionId, reason };
+          break;
+        }
+
+        // Events logged before the chain was introduced can only precede it
+        if (!event.hash) {
+          unchainedEvents++;
+        } else {
+          previousHash = event.hash;
+          eventsChecked++;
+        }
+      }
+    }
+
+    return {
+      valid: firstBrokenLink === null,
+      eventsChecked,
+      unchainedEvents,
+      firstBrokenLink,
+    };
+  }
+}
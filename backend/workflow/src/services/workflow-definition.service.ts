@@ -0,0 +1,89 @@
+import { eq } from 'drizzle-orm';
+import { type Database, db } from '../db/index.js';
+import {
+  workflowDefinitions,
+  workflowTransitions,
+  type WorkflowAction,
+  type WorkflowTransition,
+} from '../db/schema/index.js';
+import { DEFAULT_WORKFLOW_DEFINITION, type WorkflowActor } from '../types/workflow.type.js';
+import { ConflictError, ForbiddenError, NotFoundError } from '../errors/http.error.js';
+
+export class WorkflowDefinitionService {
+  private db: Database;
+
+  constructor(database?: Database) {
+    this.db = database || db;
+  }
+
+  async getDefinition(actionType: string) {
+    // Action types without their own definition follow the default lifecycle
+    const definition =
+      (await this.db.query.workflowDefinitions.findFirst({
+        where: eq(workflowDefinitions.actionType, actionType),
+      })) ||
+      (await this.db.query.workflowDefinitions.findFirst({
+        where: eq(workflowDefinitions.actionType, DEFAULT_WORKFLOW_DEFINITION),
+      }));
+
+    if (!definition) {
+      throw new NotFoundError(`Workflow definition for action type ${actionType} not found`);
+    }
+
+    const transitions = await this.db.query.workflowTransitions.findMany({
+      where: eq(workflowTransitions.definitionId, definition.id),
+    });
+
+    return {
+      ...definition,
+      transitions,
+    };
+  }
+
+  async getTransition(action: WorkflowAction, transitionName: string) {
+    const definition = await this.getDefinition(action.actionType);
+
+    const transition = definition.transitions.find(
+      (t) => t.name === transitionName && t.fromState === action.status
+    );
+
+    if (!transition) {
+      throw new ConflictError(`Transition ${transitionName} is not allowed while action is ${action.status}`);
+    }
+
+    return transition;
+  }
+
+  async getAvailableTransitions(action: WorkflowAction, actor: WorkflowActor) {
+    const definition = await this.getDefinition(action.actionType);
+
+    return definition.transitions.filter(
+      (t) => t.fromState === action.status && this.canTrigger(action, t, actor)
+    );
+  }
+
+  assertCanTrigger(action: WorkflowAction, transition: WorkflowTransition, actor: WorkflowActor) {
+    if (transition.allowedRole !== actor.role) {
+      throw new ForbiddenError(`Transition ${transition.name} requires the ${transition.allowedRole} role`);
+    }
+
+    // Maker-owned transitions belong to the action's own maker only
+    if (transition.allowedRole === 'MAKER' && action.makerId !== actor.id) {
+      throw new ForbiddenError(`Only the maker who submitted this action can ${transition.name} it`);
+    }
+
+    // Four-eyes: every other transition must come from someone other than the maker
+    if (transition.allowedRole !== 'MAKER' && action.makerId === actor.id) {
+      throw new ForbiddenError('Maker cannot review their own action');
+    }
+  }
+
+  private canTrigger(action: WorkflowAction, transition: WorkflowTransition, actor: WorkflowActor) {
+    try {
+      this.assertCanTrigger(action, transition, actor);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { env } from '../config.js';
+import { WorkflowService } from './workflow.service.js';
+
+/**
+ * Runs time-based workflow work inside the backend process: on every tick approved
+ * actions whose effective date has arrived are executed and pending actions past their
+ * time-to-live are expired. Ticks never overlap; a slow run simply delays the next one.
+ */
+export class WorkflowScheduler {
+  private workflowService: WorkflowService;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(workflowService?: WorkflowService, intervalMs: number = env.SCHEDULER_INTERVAL_MS) {
+    this.workflowService = workflowService || new WorkflowService();
+    this.intervalMs = intervalMs;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+    void this.tick();
+    console.log(`⏱️  Workflow scheduler running every ${this.intervalMs}ms`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      this.report('Scheduled execution', await this.workflowService.executeDueActions());
+      this.report('Expiry', await this.workflowService.expireOverdueActions());
+    } catch (error) {
+      console.error('Workflow scheduler run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private report(job: string, outcomes: { actionId: string; status?: string; error?: string }[]) {
+    for (const outcome of outcomes) {
+      if (outcome.error) {
+        console.error(`${job} of action ${outcome.actionId} skipped: ${outcome.error}`);
+      } else {
+        console.log(`${job}: action ${outcome.actionId} is now ${outcome.status}`);
+      }
+    }
+  }
+}
@@ -1,41 +1,186 @@
-import { eq, and, desc } from 'drizzle-orm';
-import { type Database, db } from '../db/index.js';
-import { workflowActions } from '../db/schema/index.js';
-import { ActionStatus, type ActionStatusType } from '../types/workflow.type.js';
+import { eq, and, desc, asc, count, inArray, lte, ne, notInArray, or, sql, TransactionRollbackError } from 'drizzle-orm';
+import { type Database, type DbClient, type Transaction, db } from '../db/index.js';
+import {
+  workflowActions,
+  workflowActionDependencies,
+  workflowActionExecutions,
+  workflowActionReviews,
+  workflowActionRevisions,
+  type WorkflowAction,
+  type NewWorkflowAction,
+  type WorkflowTransition,
+} from '../db/schema/index.js';
+import {
+  ActionStatus,
+  ActionTypes,
+  SYSTEM_ACTOR,
+  TransitionNames,
+  WorkflowEventTypes,
+  type ActionStatusType,
+  type WorkflowActor,
+} from '../types/workflow.type.js';
 import { ActionHandlerFactory } from '../handlers/action-handler.factory.js';
+import { type ActionHandler, type NaturalKey } from '../handlers/base.handler.js';
+import { ApprovalPolicyRegistry } from '../policies/approval-policy.registry.js';
+import { ExpiryPolicyRegistry } from '../policies/expiry-policy.registry.js';
+import { WorkflowDefinitionService } from './workflow-definition.service.js';
+import { WorkflowAuditService } from './workflow-audit.service.js';
+import { IdempotencyService } from './idempotency.service.js';
+import { actionPayloadSchemas } from '../validators/workflow.validator.js';
+import { diffPayload } from '../utils/payload-diff.js';
+import { canonicalHash } from '../utils/canonical-hash.js';
+import { BadRequestError, ConflictError, NotFoundError, UnprocessableEntityError } from '../errors/http.error.js';
+import { env } from '../config.js';
+
+// Review decisions and the transition each one triggers
+const REVIEW_TRANSITIONS: Record<string, string> = {
+  [ActionStatus.APPROVED]: TransitionNames.APPROVE,
+  [ActionStatus.REJECTED]: TransitionNames.REJECT,
+  [ActionStatus.CHANGES_REQUESTED]: TransitionNames.REQUEST_CHANGES,
+};
+
+// Statuses in which an action can no longer create its entity
+const CLOSED_STATUSES: string[] = [
+  ActionStatus.EXECUTED,
+  ActionStatus.REJECTED,
+  ActionStatus.WITHDRAWN,
+  ActionStatus.EXPIRED,
+  ActionStatus.REVERSED,
+  ActionStatus.BLOCKED,
+];
+
+// Outcomes after which an action will never execute, so nothing that depends on it can either
+const DEPENDENCY_FAILED_STATUSES: string[] = [
+  ActionStatus.REJECTED,
+  ActionStatus.WITHDRAWN,
+  ActionStatus.EXPIRED,
+  ActionStatus.REVERSED,
+  ActionStatus.BLOCKED,
+];
+
+// Whether an open action claims the key, itself or through one of its bundle steps. Keys are
+// compared by the action type they are filed under, so types sharing a namespace see each other
+function claimsKey(action: Pick<WorkflowAction, 'actionType' | 'payload'>, key: Required<NaturalKey>) {
+  return ActionHandlerFactory.getHandler(action.actionType)
+    .getNaturalKeys(action.payload)
+    .some((claimed) =>
+      (claimed.actionType ?? action.actionType) === key.actionType &&
+      claimed.field === key.field &&
+      claimed.value === key.value
+    );
+}
+
+export interface CreateActionOptions {
+  idempotencyKey?: string;
+  effectiveAt?: Date;
+  reversesActionId?: string;
+  dependsOn?: string[];
+}
+
+// Extra columns a transition records alongside the new status (review details, withdrawal, ...)
+type TransitionFields = Partial<NewWorkflowAction>;
 
 export class WorkflowService {
   private db: Database;
+  private definitions: WorkflowDefinitionService;
+  private audit: WorkflowAuditService;
+  private idempotency: IdempotencyService;
 
   constructor(database?: Database) {
     this.db = database || db;
+    this.definitions = new WorkflowDefinitionService(this.db);
+    this.audit = new WorkflowAuditService(this.db);
+    this.idempotency = new IdempotencyService(this.db);
   }
 
-  async createAction(actionType: string, payload: any, makerId: string) {
+  async createAction(actionType: string, payload: any, maker: WorkflowActor, options: CreateActionOptions = {}) {
+    const { idempotencyKey, effectiveAt, reversesActionId } = options;
+    const dependsOn = [...new Set(options.dependsOn ?? [])];
+
+    // A retried request must get the original response even if its payload would no longer validate
+    const requestHash = canonicalHash({ actionType, payload, effectiveAt, dependsOn });
+    if (idempotencyKey) {
+      const previous = await this.idempotency.lookup(maker.id, idempotencyKey, requestHash);
+      if (previous) {
+        return { action: previous.responseBody as WorkflowAction, replayed: true };
+      }
+    }
+
+    if (effectiveAt && effectiveAt <= new Date()) {
+      throw new BadRequestError('effectiveAt must be in the future');
+    }
+
     // Get the appropriate handler
     const handler = ActionHandlerFactory.getHandler(actionType);
 
     // Validate the payload
     await handler.validate(payload);
 
-    // Create workflow action record
-    const [action] = await this.db.insert(workflowActions).values({
-      actionType,
-      payload,
-      makerId,
-      status: ActionStatus.PENDING,
-    }).returning();
+    // Snapshot the quorum so later policy changes don't affect in-flight actions
+    const { requiredApprovals } = ApprovalPolicyRegistry.getPolicy(actionType, payload);
+    const definition = await this.definitions.getDefinition(actionType);
 
-    return action;
+    return this.db.transaction(async (tx) => {
+      if (idempotencyKey && !(await this.idempotency.claim(tx, maker.id, idempotencyKey, requestHash))) {
+        // A concurrent request with the same key won the race and has committed by now
+        const previous = await this.idempotency.lookup(maker.id, idempotencyKey, requestHash, tx);
+        return { action: previous!.responseBody as WorkflowAction, replayed: true };
+      }
+
+      await this.assertNoDuplicates(tx, actionType, handler, payload);
+      await this.assertDependenciesCanExecute(tx, dependsOn);
+      await handler.precheck(tx, payload);
+      const preparedPayload = await handler.prepare(tx, payload);
+
+      // Create workflow action record
+      const [action] = await tx.insert(workflowActions).values({
+        actionType,
+        payload: preparedPayload,
+        payloadHash: canonicalHash(preparedPayload),
+        makerId: maker.id,
+        requiredApprovals,
+        effectiveAt,
+        expiresAt: ExpiryPolicyRegistry.getPendingExpiry(actionType),
+        reversesActionId,
+        status: definition.initialState,
+      }).returning();
+
+      await tx.insert(workflowActionRevisions).values({
+        actionId: action.id,
+        revision: action.revision,
+        payload: preparedPayload,
+        changes: diffPayload({}, preparedPayload),
+        submittedBy: maker.id,
+      });
+
+      if (dependsOn.length > 0) {
+        await tx.insert(workflowActionDependencies).values(
+          dependsOn.map((dependsOnActionId) => ({ actionId: action.id, dependsOnActionId }))
+        );
+      }
+
+      await this.audit.record(tx, {
+        eventType: WorkflowEventTypes.CREATED,
+        actor: maker,
+        after: action,
+      });
+
+      if (idempotencyKey) {
+        await this.idempotency.complete(tx, maker.id, idempotencyKey, action.id, 201, action);
+      }
+
+      return { action, replayed: false };
+    });
   }
 
   async listActions(filters?: {
-    status?: ActionStatusType;
+    status?: string;
+    excludeStatus?: string[];
     actionType?: string;
     page?: number;
     limit?: number;
   }) {
-    const { status, actionType, page = 1, limit = 10 } = filters || {};
+    const { status, excludeStatus, actionType, page = 1, limit = 10 } = filters || {};
     const offset = (page - 1) * limit;
 
     let query = this.db.query.workflowActions.findMany({
@@ -49,6 +194,9 @@ export class WorkflowService {
     if (status) {
       conditions.push(eq(workflowActions.status, status));
     }
+    if (excludeStatus && excludeStatus.length > 0) {
+      conditions.push(notInArray(workflowActions.status, excludeStatus));
+    }
     if (actionType) {
       conditions.push(eq(workflowActions.actionType, actionType));
     }
@@ -89,52 +237,886 @@ export class WorkflowService {
     });
 
     if (!action) {
-      throw new Error(`Action with ID ${actionId} not found`);
+      throw new NotFoundError(`Action with ID ${actionId} not found`);
     }
 
     return action;
   }
 
-  async reviewAction(actionId: string, checkerId: string, status: ActionStatusType, reviewComment?: string) {
-    // Get the action
+  async reviewAction(
+    actionId: string,
+    actor: WorkflowActor,
+    decision: ActionStatusType,
+    reviewComment?: string,
+    payloadHash?: string
+  ) {
+    // A refused approval is audited in this transaction, which commits before the refusal is thrown
+    let refusal: string | null = null;
+
+    const result = await this.db.transaction(async (tx) => {
+      const action = await this.lockAction(tx, actionId);
+
+      // The action's workflow definition decides whether this review is allowed now and by whom
+      const transition = await this.definitions.getTransition(action, REVIEW_TRANSITIONS[decision]);
+      this.definitions.assertCanTrigger(action, transition, actor);
+
+      // Overdue actions are closed by the expiry job; until it runs they can't be decided either
+      if (action.status === ActionStatus.PENDING && action.expiresAt && action.expiresAt <= new Date()) {
+        throw new ConflictError(`Action expired at ${action.expiresAt.toISOString()} and can no longer be reviewed`);
+      }
+
+      if (decision === ActionStatus.REJECTED || (decision === ActionStatus.APPROVED && action.reversesActionId)) {
+        await this.lockBlockableActions(tx, action);
+      }
+
+      if (decision === ActionStatus.APPROVED) {
+        refusal = await this.checkPayloadIntegrity(tx, action, actor, payloadHash);
+        if (refusal) {
+          return null;
+        }
+      }
+
+      // Each checker gets a single vote per payload revision and approval round
+      const existingVote = await tx.query.workflowActionReviews.findFirst({
+        where: and(
+          eq(workflowActionReviews.actionId, actionId),
+          eq(workflowActionReviews.revision, action.revision),
+          eq(workflowActionReviews.approvalRound, action.approvalRound),
+          eq(workflowActionReviews.checkerId, actor.id)
+        ),
+      });
+
+      if (existingVote) {
+        throw new ConflictError(`Checker has already ${existingVote.decision} this action`);
+      }
+
+      await tx.insert(workflowActionReviews).values({
+        actionId,
+        revision: action.revision,
+        approvalRound: action.approvalRound,
+        checkerId: actor.id,
+        decision,
+        comment: reviewComment,
+        payloadHash,
+      });
+
+      await this.audit.record(tx, {
+        eventType: WorkflowEventTypes.REVIEW_RECORDED,
+        actor,
+        before: action,
+        after: action,
+        metadata: { decision, revision: action.revision, comment: reviewComment, payloadHash },
+      });
+
+      const reviews = await tx.query.workflowActionReviews.findMany({
+        where: and(
+          eq(workflowActionReviews.actionId, actionId),
+          eq(workflowActionReviews.revision, action.revision),
+          eq(workflowActionReviews.approvalRound, action.approvalRound)
+        ),
+        orderBy: [asc(workflowActionReviews.createdAt)],
+      });
+      const approvals = reviews.filter((r) => r.decision === ActionStatus.APPROVED).length;
+      const rejections = reviews.filter((r) => r.decision === ActionStatus.REJECTED).length;
+      const { rejectionIsFinal } = ApprovalPolicyRegistry.getPolicy(action.actionType, action.payload);
+
+      const review: TransitionFields = {
+        checkerId: actor.id,
+        reviewComment,
+        reviewedAt: new Date(),
+      };
+      if (decision === ActionStatus.APPROVED) {
+        review.approvalExpiresAt = ExpiryPolicyRegistry.getApprovalExpiry(action.actionType);
+      }
+
+      // Sending an action back to its maker never waits for a quorum
+      const isDecisive =
+        decision === ActionStatus.CHANGES_REQUESTED ||
+        (decision === ActionStatus.APPROVED && approvals >= action.requiredApprovals) ||
+        (decision === ActionStatus.REJECTED && (rejectionIsFinal || rejections >= action.requiredApprovals));
+
+      if (isDecisive) {
+        return this.applyTransition(tx, action, transition, actor, review);
+      }
+
+      // Quorum not reached yet: the vote is recorded and the action stays where it is
+      return {
+        action,
+        reviews,
+        approvals,
+        requiredApprovals: action.requiredApprovals,
+      };
+    });
+
+    if (refusal) {
+      throw new ConflictError(`Approval refused: ${refusal}`);
+    }
+
+    return result!;
+  }
+
+  async transitionAction(
+    actionId: string,
+    transitionName: string,
+    actor: WorkflowActor,
+    comment?: string,
+    payloadHash?: string
+  ) {
+    // Review transitions always go through the approval quorum
+    const decision = Object.keys(REVIEW_TRANSITIONS).find((d) => REVIEW_TRANSITIONS[d] === transitionName);
+    if (decision) {
+      return this.reviewAction(actionId, actor, decision as ActionStatusType, comment, payloadHash);
+    }
+
+    if (transitionName === TransitionNames.RESUBMIT) {
+      throw new BadRequestError('Resubmitting requires an updated payload; use the resubmit endpoint');
+    }
+
+    return this.db.transaction(async (tx) => {
+      const action = await this.lockAction(tx, actionId);
+      const transition = await this.definitions.getTransition(action, transitionName);
+      this.definitions.assertCanTrigger(action, transition, actor);
+
+      if (DEPENDENCY_FAILED_STATUSES.includes(transition.toState) || (transition.triggersExecution && action.reversesActionId)) {
+        await this.lockBlockableActions(tx, action);
+      }
+
+      const fields: TransitionFields = transitionName === TransitionNames.WITHDRAW
+        ? { withdrawnAt: new Date(), withdrawalReason: comment }
+        : transitionName === TransitionNames.EXPIRE
+          ? { expiredAt: new Date(), expiryReason: comment }
+          : {};
+
+      return this.applyTransition(tx, action, transition, actor, fields);
+    });
+  }
+
+  async resubmitAction(actionId: string, actor: WorkflowActor, payload: Record<string, unknown>, comment?: string) {
+    return this.db.transaction(async (tx) => {
+      const action = await this.lockAction(tx, actionId);
+      const transition = await this.definitions.getTransition(action, TransitionNames.RESUBMIT);
+      this.definitions.assertCanTrigger(action, transition, actor);
+
+      // The edited payload goes through exactly the same checks as a new submission
+      const handler = ActionHandlerFactory.getHandler(action.actionType);
+      const parsed = actionPayloadSchemas[action.actionType]?.safeParse(payload);
+      if (parsed && !parsed.success) {
+        throw new BadRequestError(`Invalid payload: ${parsed.error.errors.map((e) => e.message).join(', ')}`);
+      }
+      const updatedPayload = parsed ? parsed.data : payload;
+      await handler.validate(updatedPayload);
+
+      // A reversal stays linked to the action it was opened for
+      if (action.reversesActionId && updatedPayload.originalActionId !== action.reversesActionId) {
+        throw new BadRequestError('A reversal cannot be pointed at a different action');
+      }
+
+      await this.assertNoDuplicates(tx, action.actionType, handler, updatedPayload, action.id);
+      await handler.precheck(tx, updatedPayload);
+      const preparedPayload = await handler.prepare(tx, updatedPayload);
+
+      const revision = action.revision + 1;
+      const { requiredApprovals } = ApprovalPolicyRegistry.getPolicy(action.actionType, preparedPayload);
+
+      await tx.insert(workflowActionRevisions).values({
+        actionId,
+        revision,
+        payload: preparedPayload,
+        changes: diffPayload(action.payload as Record<string, unknown>, preparedPayload),
+        submittedBy: actor.id,
+        comment,
+      });
+
+      // Votes belong to the previous revision, so the review starts over
+      return this.applyTransition(tx, action, transition, actor, {
+        payload: preparedPayload,
+        payloadHash: canonicalHash(preparedPayload),
+        revision,
+        requiredApprovals,
+        expiresAt: ExpiryPolicyRegistry.getPendingExpiry(action.actionType),
+        checkerId: null,
+        reviewComment: null,
+        reviewedAt: null,
+        approvalExpiresAt: null,
+      });
+    });
+  }
+
+  /**
+   * Open a reversal of an executed action. The reversal is an ordinary pending action that
+   * goes through maker-checker like any other; the original is only undone, and marked
+   * reversed, once the reversal is approved and executed.
+   */
+  async reverseAction(actionId: string, maker: WorkflowActor, reason: string, idempotencyKey?: string) {
+    const original = await this.getActionById(actionId);
+
+    return this.createAction(
+      ActionTypes.REVERSE_ACTION,
+      { originalActionId: original.id, reason },
+      maker,
+      { idempotencyKey, reversesActionId: original.id }
+    );
+  }
+
+  // Pass the action's reversals to also rule out opening a second one while one is still open
+  isReversible(action: WorkflowAction, reversals: WorkflowAction[] = []) {
+    return action.status === ActionStatus.EXECUTED
+      && !!ActionHandlerFactory.getHandler(action.actionType).compensate
+      && !reversals.some((reversal) => !CLOSED_STATUSES.includes(reversal.status));
+  }
+
+  async getReversals(actionId: string) {
+    return this.db.query.workflowActions.findMany({
+      where: eq(workflowActions.reversesActionId, actionId),
+      orderBy: [asc(workflowActions.createdAt)],
+    });
+  }
+
+  /**
+   * Every action connected to this one through dependencies, in either direction, and the
+   * links between them. An edge points from the dependent action to its prerequisite.
+   */
+  async getDependencyGraph(actionId: string) {
+    const edges = new Map<string, { actionId: string; dependsOnActionId: string }>();
+    const visited = new Set([actionId]);
+    let frontier = [actionId];
+
+    while (frontier.length > 0) {
+      const links = await this.db
+        .select()
+        .from(workflowActionDependencies)
+        .where(or(
+          inArray(workflowActionDependencies.actionId, frontier),
+          inArray(workflowActionDependencies.dependsOnActionId, frontier)
+        ));
+
+      frontier = [];
+      for (const link of links) {
+        edges.set(link.id, { actionId: link.actionId, dependsOnActionId: link.dependsOnActionId });
+        for (const id of [link.actionId, link.dependsOnActionId]) {
+          if (!visited.has(id)) {
+            visited.add(id);
+            frontier.push(id);
+          }
+        }
+      }
+    }
+
+    const nodes = edges.size === 0
+      ? []
+      : await this.db
+          .select({ id: workflowActions.id, actionType: workflowActions.actionType, status: workflowActions.status })
+          .from(workflowActions)
+          .where(inArray(workflowActions.id, [...visited]));
+
+    return {
+      nodes,
+      edges: [...edges.values()],
+    };
+  }
+
+  async getActionRevisions(actionId: string) {
+    return this.db.query.workflowActionRevisions.findMany({
+      where: eq(workflowActionRevisions.actionId, actionId),
+      orderBy: [asc(workflowActionRevisions.revision)],
+    });
+  }
+
+  async withdrawAction(actionId: string, actor: WorkflowActor, reason?: string) {
+    return this.transitionAction(actionId, TransitionNames.WITHDRAW, actor, reason);
+  }
+
+  async getAvailableTransitions(actionId: string, actor: WorkflowActor) {
     const action = await this.getActionById(actionId);
+    return this.definitions.getAvailableTransitions(action, actor);
+  }
+
+  async getActionReviews(actionId: string) {
+    return this.db.query.workflowActionReviews.findMany({
+      where: eq(workflowActionReviews.actionId, actionId),
+      orderBy: [asc(workflowActionReviews.createdAt)],
+    });
+  }
+
+  async retryExecution(actionId: string, actor: WorkflowActor) {
+    return this.transitionAction(actionId, TransitionNames.RETRY_EXECUTION, actor);
+  }
+
+  /**
+   * Run the handler exactly as approval would, inside a transaction that is always rolled
+   * back, and report what it would have created or why it would fail. Only actors who could
+   * trigger the execution right now may preview it.
+   */
+  async previewAction(actionId: string, actor: WorkflowActor) {
+    const action = await this.getActionById(actionId);
+    const transitions = await this.definitions.getAvailableTransitions(action, actor);
+    if (!transitions.some((t) => t.triggersExecution)) {
+      throw new ConflictError(`Action cannot be executed by this user while it is ${action.status}`);
+    }
+
+    const handler = ActionHandlerFactory.getHandler(action.actionType);
+    let preview: { wouldSucceed: boolean; result?: unknown; error?: string } = { wouldSucceed: false };
+
+    try {
+      await this.db.transaction(async (tx) => {
+        try {
+          preview = { wouldSucceed: true, result: await handler.execute(tx, action.payload) };
+        } catch (error) {
+          preview = { wouldSucceed: false, error: error instanceof Error ? error.message : String(error) };
+        }
+        tx.rollback();
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) {
+        throw error;
+      }
+    }
+
+    return {
+      actionId: action.id,
+      revision: action.revision,
+      payloadHash: action.payloadHash,
+      ...preview,
+    };
+  }
+
+  /**
+   * Execute every scheduled action whose effective time has passed.
+   */
+  async executeDueActions(now: Date = new Date()) {
+    const due = await this.db
+      .select({ id: workflowActions.id })
+      .from(workflowActions)
+      .where(and(
+        eq(workflowActions.status, ActionStatus.APPROVED_SCHEDULED),
+        lte(workflowActions.effectiveAt, now)
+      ))
+      .orderBy(asc(workflowActions.effectiveAt));
+
+    return this.runSystemTransitions(due, TransitionNames.EXECUTE_SCHEDULED);
+  }
+
+  /**
+   * Expire every pending action that was not decided within its action type's time-to-live.
+   */
+  async expireOverdueActions(now: Date = new Date()) {
+    const overdue = await this.db
+      .select({ id: workflowActions.id, expiresAt: workflowActions.expiresAt })
+      .from(workflowActions)
+      .where(and(
+        eq(workflowActions.status, ActionStatus.PENDING),
+        lte(workflowActions.expiresAt, now)
+      ))
+      .orderBy(asc(workflowActions.expiresAt));
+
+    return this.runSystemTransitions(
+      overdue,
+      TransitionNames.EXPIRE,
+      (action) => `Not reviewed before ${action.expiresAt!.toISOString()}`
+    );
+  }
+
+  async getActionEvents(actionId: string) {
+    await this.getActionById(actionId);
+    return this.audit.listEvents(actionId);
+  }
+
+  async getExecutionAttempts(actionId: string) {
+    await this.getActionById(actionId);
 
-    // Check if action is already reviewed
-    if (action.status !== ActionStatus.PENDING) {
-      throw new Error(`Action is already ${action.status} and cannot be reviewed again`);
+    return this.db.query.workflowActionExecutions.findMany({
+      where: eq(workflowActionExecutions.actionId, actionId),
+      orderBy: [asc(workflowActionExecutions.attempt)],
+    });
+  }
+
+  /**
+   * Trigger a background transition on each action in its own transaction, so one failure
+   * doesn't hold back the rest. An action another process already moved on fails the
+   * transition check and is reported as skipped.
+   */
+  private async runSystemTransitions<T extends { id: string }>(
+    actions: T[],
+    transitionName: string,
+    getComment?: (action: T) => string
+  ) {
+    const outcomes: { actionId: string; status?: string; error?: string }[] = [];
+    for (const action of actions) {
+      try {
+        const result = await this.transitionAction(action.id, transitionName, SYSTEM_ACTOR, getComment?.(action));
+        outcomes.push({ actionId: action.id, status: result.action.status });
+      } catch (error) {
+        outcomes.push({ actionId: action.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Approval is only valid for the exact payload the maker submitted and the checker saw:
+   * the stored payload must still match the hash taken at submission, and the checker's
+   * hash must match both. A mismatch is recorded as approval_refused and its reason returned.
+   */
+  private async checkPayloadIntegrity(
+    tx: Transaction,
+    action: WorkflowAction,
+    actor: WorkflowActor,
+    payloadHash?: string
+  ): Promise<string | null> {
+    if (!payloadHash) {
+      throw new BadRequestError('The hash of the reviewed payload is required to approve');
+    }
+
+    const currentHash = canonicalHash(action.payload);
+    // Actions submitted before payload hashing bind to the payload as it is now
+    const submittedHash = action.payloadHash ?? currentHash;
+
+    let reason: string | null = null;
+    if (currentHash !== submittedHash) {
+      reason = 'Stored payload no longer matches the payload submitted by the maker';
+    } else if (payloadHash !== submittedHash) {
+      reason = 'Reviewed payload does not match the payload submitted by the maker';
+    }
+
+    if (reason) {
+      await this.audit.record(tx, {
+        eventType: WorkflowEventTypes.APPROVAL_REFUSED,
+        actor,
+        before: action,
+        after: action,
+        metadata: { reason, submittedHash, currentHash, reviewedHash: payloadHash },
+      });
     }
 
-    // Maker cannot be the checker
-    if (action.makerId === checkerId) {
-      throw new Error('Maker cannot review their own action');
+    return reason;
+  }
+
+  /**
+   * Refuse a submission whose natural keys (email, account number, promotion code, ...)
+   * are already held by an existing entity or claimed by another open action of the same
+   * type, standalone or as a bundle step. Each key is locked for the rest of the transaction
+   * so two concurrent submissions with the same key cannot both pass the check.
+   */
+  private async assertNoDuplicates(
+    tx: Transaction,
+    actionType: string,
+    handler: ActionHandler<any>,
+    payload: any,
+    excludeActionId?: string
+  ) {
+    const keys = handler
+      .getNaturalKeys(payload)
+      .map((key) => ({ ...key, actionType: key.actionType ?? actionType }));
+    if (keys.length === 0) {
+      return;
+    }
+
+    // Always taken in the same order, so two bundles sharing keys can't deadlock on them
+    const lockNames = [...new Set(keys.map((key) => `${key.actionType}:${key.field}:${key.value}`))].sort();
+    for (const lockName of lockNames) {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${lockName}))`);
+    }
+
+    const existingKeys = await handler.findExistingKeys(tx, payload);
+
+    const openActions = await tx
+      .select({
+        id: workflowActions.id,
+        actionType: workflowActions.actionType,
+        status: workflowActions.status,
+        payload: workflowActions.payload,
+      })
+      .from(workflowActions)
+      .where(and(
+        notInArray(workflowActions.status, CLOSED_STATUSES),
+        // Narrowed by value only; claimsKey below decides which action types share the key
+        or(...keys.map((key) => or(
+          sql`${workflowActions.payload}->>${key.field} = ${key.value}`,
+          and(
+            eq(workflowActions.actionType, ActionTypes.BUNDLE),
+            sql`exists (select 1 from jsonb_array_elements(${workflowActions.payload}->'steps') as step
+              where step->>'actionType' = ${key.actionType} and step->'payload'->>${key.field} = ${key.value})`
+          )
+        ))),
+        excludeActionId ? ne(workflowActions.id, excludeActionId) : undefined
+      ));
+
+    const conflictingActions = openActions
+      .map((action) => ({
+        id: action.id,
+        status: action.status,
+        fields: [...new Set(keys.filter((key) => claimsKey(action, key)).map((key) => key.field))],
+      }))
+      .filter((action) => action.fields.length > 0);
+
+    if (existingKeys.length === 0 && conflictingActions.length === 0) {
+      return;
+    }
+
+    const fields = [...new Set([...existingKeys.map((k) => k.field), ...conflictingActions.flatMap((a) => a.fields)])];
+    throw new ConflictError(`Duplicate ${actionType}: ${fields.join(', ')} already in use`, {
+      existingKeys,
+      conflictingActionIds: conflictingActions.map((a) => a.id),
+      conflictingActions,
+    });
+  }
+
+  /**
+   * Lock the action row until the surrounding transaction ends. Concurrent reviews and
+   * transitions on the same action queue up here and then see the winner's status, so the
+   * loser fails the transition check with a 409 instead of executing a second time.
+   * NO KEY UPDATE still lets other connections insert rows that reference the action.
+   */
+  private async lockAction(client: DbClient, actionId: string) {
+    const [action] = await client
+      .select()
+      .from(workflowActions)
+      .where(eq(workflowActions.id, actionId))
+      .for('no key update');
+
+    if (!action) {
+      throw new NotFoundError(`Action with ID ${actionId} not found`);
     }
 
-    // Update the action status
-    const [updatedAction] = await this.db
+    return action;
+  }
+
+  private async countExecutionAttempts(client: DbClient, actionId: string) {
+    const [{ value }] = await client
+      .select({ value: count() })
+      .from(workflowActionExecutions)
+      .where(eq(workflowActionExecutions.actionId, actionId));
+
+    return value;
+  }
+
+  /**
+   * Move the action out of the status it was read in. The update only matches while the
+   * row still has that status, so a transition applied without holding the row lock
+   * cannot silently overwrite a concurrent one.
+   */
+  private async updateFromStatus(client: DbClient, action: WorkflowAction, fields: TransitionFields) {
+    const [updatedAction] = await client
       .update(workflowActions)
       .set({
-        status,
-        checkerId,
-        reviewComment,
-        reviewedAt: new Date(),
+        ...fields,
         updatedAt: new Date(),
       })
-      .where(eq(workflowActions.id, actionId))
+      .where(and(eq(workflowActions.id, action.id), eq(workflowActions.status, action.status)))
       .returning();
 
-    // If approved, execute the action
-    if (status === ActionStatus.APPROVED) {
-      const handler = ActionHandlerFactory.getHandler(action.actionType);
-      const result = await handler.execute(this.db, action.payload);
-      
-      return {
-        action: updatedAction,
-        executionResult: result,
-      };
+    if (!updatedAction) {
+      throw new ConflictError(`Action is no longer ${action.status}; it was changed by another request`);
+    }
+
+    return updatedAction;
+  }
+
+  private async applyTransition(
+    client: DbClient,
+    action: WorkflowAction,
+    transition: WorkflowTransition,
+    actor: WorkflowActor,
+    fields: TransitionFields = {}
+  ) {
+    if (transition.triggersExecution) {
+      // A transition that sets a fresh approval is judged by it, anything else by the stored one
+      const approvalExpiresAt = fields.approvalExpiresAt !== undefined ? fields.approvalExpiresAt : action.approvalExpiresAt;
+      if (approvalExpiresAt && approvalExpiresAt <= new Date()) {
+        return this.lapseApproval(client, action, transition, actor, approvalExpiresAt);
+      }
+    }
+
+    // Approved before its effective date: park it for the scheduler instead of executing now
+    const isScheduled = transition.triggersExecution && !!action.effectiveAt && action.effectiveAt > new Date();
+
+    if (transition.triggersExecution && !isScheduled) {
+      await this.assertDependenciesExecuted(client, action);
+      return this.executeAction(client, action, transition, actor, fields);
     }
 
+    const updatedAction = await this.updateFromStatus(client, action, {
+      ...fields,
+      status: isScheduled ? ActionStatus.APPROVED_SCHEDULED : transition.toState,
+    });
+
+    await this.audit.record(client, {
+      eventType: transition.name,
+      actor,
+      before: action,
+      after: updatedAction,
+      metadata: isScheduled ? { effectiveAt: action.effectiveAt } : undefined,
+    });
+
+    if (DEPENDENCY_FAILED_STATUSES.includes(updatedAction.status)) {
+      await this.blockDependents(client, updatedAction, actor);
+    }
+
+    return {
+      action: updatedAction,
+    };
+  }
+
+  /**
+   * The approval is too old to act on: instead of executing, send the action back for a new
+   * round of approval. Votes from the lapsed round no longer count towards the quorum.
+   */
+  private async lapseApproval(
+    client: DbClient,
+    action: WorkflowAction,
+    transition: WorkflowTransition,
+    actor: WorkflowActor,
+    approvalExpiresAt: Date
+  ) {
+    const updatedAction = await this.updateFromStatus(client, action, {
+      status: ActionStatus.APPROVAL_LAPSED,
+      approvalRound: action.approvalRound + 1,
+    });
+
+    await this.audit.record(client, {
+      eventType: WorkflowEventTypes.APPROVAL_LAPSED,
+      actor,
+      before: action,
+      after: updatedAction,
+      metadata: { transition: transition.name, approvalExpiresAt },
+    });
+
     return {
       action: updatedAction,
     };
   }
-}
\ No newline at end of file
+
+  // The reversal's handler has undone the original; close the original so it can't be reversed twice
+  private async markReversed(tx: Transaction, reversal: WorkflowAction, actor: WorkflowActor) {
+    const original = await this.lockAction(tx, reversal.reversesActionId!);
+    const reversedAction = await this.updateFromStatus(tx, original, { status: ActionStatus.REVERSED });
+
+    await this.audit.record(tx, {
+      eventType: WorkflowEventTypes.REVERSED,
+      actor,
+      before: original,
+      after: reversedAction,
+      metadata: { reversalActionId: reversal.id, reason: (reversal.payload as { reason?: string }).reason },
+    });
+
+    await this.blockDependents(tx, reversedAction, actor);
+  }
+
+  /**
+   * Dependencies must exist and still be able to execute. They stay share-locked until the
+   * new action commits, so a concurrent rejection waits and then sees, and blocks, it.
+   */
+  private async assertDependenciesCanExecute(tx: Transaction, dependsOn: string[]) {
+    if (dependsOn.length === 0) {
+      return;
+    }
+
+    const prerequisites = await tx
+      .select({ id: workflowActions.id, status: workflowActions.status })
+      .from(workflowActions)
+      .where(inArray(workflowActions.id, dependsOn))
+      .for('share');
+
+    const missing = dependsOn.filter((id) => !prerequisites.some((p) => p.id === id));
+    if (missing.length > 0) {
+      throw new UnprocessableEntityError(`Dependencies not found: ${missing.join(', ')}`);
+    }
+
+    const failed = prerequisites.filter((p) => DEPENDENCY_FAILED_STATUSES.includes(p.status));
+    if (failed.length > 0) {
+      throw new UnprocessableEntityError(
+        `Dependencies can no longer execute: ${failed.map((p) => `${p.id} is ${p.status}`).join(', ')}`
+      );
+    }
+  }
+
+  private async assertDependenciesExecuted(client: DbClient, action: WorkflowAction) {
+    const prerequisites = await client
+      .select({ id: workflowActions.id, status: workflowActions.status })
+      .from(workflowActionDependencies)
+      .innerJoin(workflowActions, eq(workflowActions.id, workflowActionDependencies.dependsOnActionId))
+      .where(eq(workflowActionDependencies.actionId, action.id));
+
+    const unmetDependencies = prerequisites.filter((p) => p.status !== ActionStatus.EXECUTED);
+    if (unmetDependencies.length > 0) {
+      throw new ConflictError(
+        `Action cannot execute until the actions it depends on have executed: ${unmetDependencies.map((p) => `${p.id} is ${p.status}`).join(', ')}`,
+        { unmetDependencies }
+      );
+    }
+  }
+
+  /**
+   * Lock every action a transition of this one could block, before the transaction writes any
+   * audit event: its dependents, their dependents, and for a reversal the original and its
+   * dependents. blockDependents would otherwise lock them while holding the audit chain lock,
+   * and deadlock with a concurrent review of a dependent that holds its row and waits for it.
+   */
+  private async lockBlockableActions(client: DbClient, action: WorkflowAction) {
+    let frontier = [action.id];
+    if (action.reversesActionId) {
+      await this.lockAction(client, action.reversesActionId);
+      frontier.push(action.reversesActionId);
+    }
+    const seen = new Set(frontier);
+
+    while (frontier.length > 0) {
+      const dependents = await client
+        .select({ id: workflowActionDependencies.actionId })
+        .from(workflowActionDependencies)
+        .where(inArray(workflowActionDependencies.dependsOnActionId, frontier));
+
+      frontier = [...new Set(dependents.map((d) => d.id))].filter((id) => !seen.has(id)).sort();
+      if (frontier.length === 0) {
+        break;
+      }
+
+      await client
+        .select({ id: workflowActions.id })
+        .from(workflowActions)
+        .where(inArray(workflowActions.id, frontier))
+        .orderBy(asc(workflowActions.id))
+        .for('no key update');
+
+      frontier.forEach((id) => seen.add(id));
+    }
+  }
+
+  /**
+   * The prerequisite will never execute, so neither will anything waiting on it: block every
+   * open dependent, and through them their own dependents.
+   */
+  private async blockDependents(client: DbClient, prerequisite: WorkflowAction, actor: WorkflowActor) {
+    const dependents = await client
+      .select({ id: workflowActionDependencies.actionId })
+      .from(workflowActionDependencies)
+      .where(eq(workflowActionDependencies.dependsOnActionId, prerequisite.id));
+
+    for (const { id } of dependents) {
+      // Already locked by lockBlockableActions; this reads the row's current state
+      const dependent = await this.lockAction(client, id);
+      if ([...CLOSED_STATUSES, ActionStatus.EXECUTING].includes(dependent.status)) {
+        continue;
+      }
+
+      const blockedAction = await this.updateFromStatus(client, dependent, { status: ActionStatus.BLOCKED });
+
+      await this.audit.record(client, {
+        eventType: WorkflowEventTypes.BLOCKED,
+        actor,
+        before: dependent,
+        after: blockedAction,
+        metadata: { dependsOnActionId: prerequisite.id, dependencyStatus: prerequisite.status },
+      });
+
+      await this.blockDependents(client, blockedAction, actor);
+    }
+  }
+
+  private async executeAction(
+    client: DbClient,
+    action: WorkflowAction,
+    transition: WorkflowTransition,
+    actor: WorkflowActor,
+    fields: TransitionFields = {}
+  ) {
+    const attempt = (await this.countExecutionAttempts(client, action.id)) + 1;
+    if (attempt > env.MAX_EXECUTION_ATTEMPTS) {
+      throw new ConflictError(`Action has reached the maximum of ${env.MAX_EXECUTION_ATTEMPTS} execution attempts`);
+    }
+
+    // Claim the action first; only one request can move it out of its current status
+    await this.updateFromStatus(client, action, {
+      ...fields,
+      status: ActionStatus.EXECUTING,
+    });
+
+    // The handler runs in a savepoint: if it throws, its partial side effects are rolled
+    // back while the claim, the vote and the failure record below still commit
+    try {
+      return await client.transaction(async (tx) => {
+        // Only the payload the checkers approved may run; a stored payload edited since then
+        // is refused and recorded as a failed attempt like any other
+        if (action.payloadHash && canonicalHash(action.payload) !== action.payloadHash) {
+          throw new ConflictError('Stored payload no longer matches the approved payload; refusing to execute');
+        }
+
+        const handler = ActionHandlerFactory.getHandler(action.actionType);
+        const result = await handler.execute(tx, action.payload);
+
+        if (action.reversesActionId) {
+          await this.markReversed(tx, action, actor);
+        }
+
+        const [updatedAction] = await tx
+          .update(workflowActions)
+          .set({
+            status: ActionStatus.EXECUTED,
+            executionResult: result,
+            executionError: null,
+            executedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(workflowActions.id, action.id))
+          .returning();
+
+        await tx.insert(workflowActionExecutions).values({
+          actionId: action.id,
+          attempt,
+          status: ActionStatus.EXECUTED,
+          triggeredBy: actor.id,
+          result,
+        });
+
+        await this.audit.record(tx, {
+          eventType: WorkflowEventTypes.EXECUTION_SUCCEEDED,
+          actor,
+          before: action,
+          after: updatedAction,
+          metadata: { transition: transition.name, attempt },
+        });
+
+        return {
+          action: updatedAction,
+          executionResult: result,
+          attempt,
+        };
+      });
+    } catch (error) {
+      const executionError = error instanceof Error ? error.message : String(error);
+
+      const [updatedAction] = await client
+        .update(workflowActions)
+        .set({
+          status: ActionStatus.EXECUTION_FAILED,
+          executionError,
+          updatedAt: new Date(),
+        })
+        .where(eq(workflowActions.id, action.id))
+        .returning();
+
+      await client.insert(workflowActionExecutions).values({
+        actionId: action.id,
+        attempt,
+        status: ActionStatus.EXECUTION_FAILED,
+        triggeredBy: actor.id,
+        error: executionError,
+      });
+
+      await this.audit.record(client, {
+        eventType: WorkflowEventTypes.EXECUTION_FAILED,
+        actor,
+        before: action,
+        after: updatedAction,
+        metadata: { transition: transition.name, attempt, error: executionError },
+      });
+
+      return {
+        action: updatedAction,
+        executionError,
+        attempt,
+      };
+    }
+  }
+}
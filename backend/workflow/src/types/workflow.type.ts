@@ -1,7 +1,16 @@
+import { type PayloadChange } from '../utils/payload-diff.js';
+
 export const ActionTypes = {
   CREATE_USER: 'create_user',
+  UPDATE_USER: 'update_user',
+  DEACTIVATE_USER: 'deactivate_user',
+  REACTIVATE_USER: 'reactivate_user',
+  CHANGE_USER_ROLE: 'change_user_role',
   CREATE_ACCOUNT: 'create_account',
+  BALANCE_ADJUSTMENT: 'balance_adjustment',
   CREATE_PROMOTION: 'create_promotion',
+  REVERSE_ACTION: 'reverse_action',
+  BUNDLE: 'bundle',
 } as const;
 
 export type ActionType = typeof ActionTypes[keyof typeof ActionTypes];
@@ -10,10 +19,69 @@ export const ActionStatus = {
   PENDING: 'pending',
   APPROVED: 'approved',
   REJECTED: 'rejected',
+  EXECUTING: 'executing',
+  EXECUTED: 'executed',
+  EXECUTION_FAILED: 'execution_failed',
+  WITHDRAWN: 'withdrawn',
+  CHANGES_REQUESTED: 'changes_requested',
+  APPROVED_SCHEDULED: 'approved_scheduled',
+  EXPIRED: 'expired',
+  APPROVAL_LAPSED: 'approval_lapsed',
+  REVERSED: 'reversed',
+  BLOCKED: 'blocked',
 } as const;
 
 export type ActionStatusType = typeof ActionStatus[keyof typeof ActionStatus];
 
+// Transition names the service relies on; any other transition is purely data-driven
+export const TransitionNames = {
+  APPROVE: 'approve',
+  REJECT: 'reject',
+  RETRY_EXECUTION: 'retry_execution',
+  WITHDRAW: 'withdraw',
+  REQUEST_CHANGES: 'request_changes',
+  RESUBMIT: 'resubmit',
+  EXECUTE_SCHEDULED: 'execute_scheduled',
+  EXPIRE: 'expire',
+} as const;
+
+export const DEFAULT_WORKFLOW_DEFINITION = 'default';
+
+// Audit event types that are not transitions; transitions are logged under their own name
+export const WorkflowEventTypes = {
+  CREATED: 'created',
+  REVIEW_RECORDED: 'review_recorded',
+  EXECUTION_SUCCEEDED: 'execution_succeeded',
+  EXECUTION_FAILED: 'execution_failed',
+  APPROVAL_REFUSED: 'approval_refused',
+  APPROVAL_LAPSED: 'approval_lapsed',
+  REVERSED: 'reversed',
+  BLOCKED: 'blocked',
+} as const;
+
+// Where an actor's request came from, as recorded in the audit log
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface WorkflowActor {
+  id: string;
+  role: string;
+  context?: RequestContext;
+}
+
+// Roles a user account can hold; SYSTEM is reserved for background jobs
+export const UserRoles = ['MAKER', 'CHECKER'] as const;
+
+export type UserRole = typeof UserRoles[number];
+
+// Background jobs act under this identity; transitions they trigger are granted to the SYSTEM role
+export const SYSTEM_ACTOR: WorkflowActor = {
+  id: 'system',
+  role: 'SYSTEM',
+};
+
 export interface BaseActionPayload {
   actionType: ActionType;
 }
@@ -25,6 +93,46 @@ export interface CreateUserPayload extends BaseActionPayload {
   fullName?: string;
 }
 
+// The user's editable fields as they were when the update was submitted
+export interface UserSnapshot {
+  email: string;
+  username: string;
+  fullName: string | null;
+  updatedAt: string;
+}
+
+export interface UpdateUserPayload extends BaseActionPayload {
+  actionType: typeof ActionTypes.UPDATE_USER;
+  userId: string;
+  email?: string;
+  username?: string;
+  fullName?: string;
+  // Filled in at submission
+  before?: UserSnapshot;
+  changes?: PayloadChange[];
+}
+
+export interface DeactivateUserPayload extends BaseActionPayload {
+  actionType: typeof ActionTypes.DEACTIVATE_USER;
+  userId: string;
+  reason: string;
+}
+
+export interface ReactivateUserPayload extends BaseActionPayload {
+  actionType: typeof ActionTypes.REACTIVATE_USER;
+  userId: string;
+  reason: string;
+}
+
+export interface ChangeUserRolePayload extends BaseActionPayload {
+  actionType: typeof ActionTypes.CHANGE_USER_ROLE;
+  userId: string;
+  role: UserRole;
+  reason: string;
+  // Filled in at submission
+  previousRole?: UserRole;
+}
+
 export interface CreateAccountPayload extends BaseActionPayload {
   actionType: typeof ActionTypes.CREATE_ACCOUNT;
   userId: string;
@@ -34,6 +142,24 @@ export interface CreateAccountPayload extends BaseActionPayload {
   currency?: string;
 }
 
+export const LedgerDirections = ['credit', 'debit'] as const;
+
+export type LedgerDirection = typeof LedgerDirections[number];
+
+// Why a balance was adjusted by hand; reversal entries are written by the system only
+export const BalanceAdjustmentReasonCodes = ['correction', 'fee', 'interest', 'refund', 'goodwill', 'chargeback'] as const;
+
+export type BalanceAdjustmentReasonCode = typeof BalanceAdjustmentReasonCodes[number];
+
+export interface BalanceAdjustmentPayload extends BaseActionPayload {
+  actionType: typeof ActionTypes.BALANCE_ADJUSTMENT;
+  accountId: string;
+  direction: LedgerDirection;
+  amount: string;
+  reasonCode: BalanceAdjustmentReasonCode;
+  note?: string;
+}
+
 export interface CreatePromotionPayload extends BaseActionPayload {
   actionType: typeof ActionTypes.CREATE_PROMOTION;
   code: string;
@@ -45,4 +171,31 @@ export interface CreatePromotionPayload extends BaseActionPayload {
   endDate: string;
 }
 
-export type ActionPayload = CreateUserPayload | CreateAccountPayload | CreatePromotionPayload;
\ No newline at end of file
+export interface ReverseActionPayload extends BaseActionPayload {
+  actionType: typeof ActionTypes.REVERSE_ACTION;
+  originalActionId: string;
+  reason: string;
+}
+
+// One step of a bundle; payload fields may hold `$steps[<index>].<path>` references to earlier results
+export interface BundleStep {
+  actionType: ActionType;
+  payload: Record<string, unknown>;
+}
+
+export interface BundlePayload extends BaseActionPayload {
+  actionType: typeof ActionTypes.BUNDLE;
+  steps: BundleStep[];
+}
+
+export type ActionPayload =
+  | CreateUserPayload
+  | UpdateUserPayload
+  | DeactivateUserPayload
+  | ReactivateUserPayload
+  | ChangeUserRolePayload
+  | CreateAccountPayload
+  | BalanceAdjustmentPayload
+  | CreatePromotionPayload
+  | ReverseActionPayload
+  | BundlePayload;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { and, eq, ne } from 'drizzle-orm';
+import { type DbClient } from '../db/index.js';
+import { users } from '../db/schema/index.js';
+import { UnprocessableEntityError } from '../errors/http.error.js';
+
+/**
+ * Refuse a change that would leave no active checker: nobody could approve anything again,
+ * including the action that would undo it. The remaining checkers are locked so two such
+ * changes running at once can't each count the other's user as still available.
+ */
+export async function assertAnotherActiveChecker(db: DbClient, userId: string, message: string) {
+  const otherCheckers = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.role, 'CHECKER'), eq(users.isActive, true), ne(users.id, userId)))
+    .for('update');
+
+  if (otherCheckers.length === 0) {
+    throw new UnprocessableEntityError(message);
+  }
+}
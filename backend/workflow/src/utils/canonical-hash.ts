@@ -0,0 +1,32 @@
+import { createHash } from 'node:crypto';
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .filter((key) => record[key] !== undefined)
+        .sort()
+        .map((key) => [key, normalize(record[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * JSON with object keys sorted at every level, so a value serializes the same way
+ * before it is stored and after it comes back out of a jsonb column.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(normalize(value)) ?? 'null';
+}
+
+export function canonicalHash(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
@@ -0,0 +1,21 @@
+export interface PayloadChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Field-level diff between two flat payload objects.
+ * Values are compared by their JSON representation so dates and decimals round-trip cleanly.
+ */
+export function diffPayload(before: Record<string, unknown>, after: Record<string, unknown>): PayloadChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
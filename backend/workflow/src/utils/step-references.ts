@@ -0,0 +1,53 @@
+// A payload field whose whole value is `$steps[<index>].<path>` takes that value from an earlier step's result
+const STEP_REFERENCE = /^\$steps\[(\d+)\]\.([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)$/;
+
+export interface StepReference {
+  field: string;
+  stepIndex: number;
+  path: string;
+}
+
+export function parseStepReference(value: unknown): Omit<StepReference, 'field'> | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = STEP_REFERENCE.exec(value);
+  return match ? { stepIndex: Number(match[1]), path: match[2] } : null;
+}
+
+/**
+ * References among a step payload's top-level fields.
+ */
+export function findStepReferences(payload: Record<string, unknown>): StepReference[] {
+  return Object.entries(payload).flatMap(([field, value]) => {
+    const reference = parseStepReference(value);
+    return reference ? [{ field, ...reference }] : [];
+  });
+}
+
+/**
+ * Replace every reference in the payload with the value it points to in the results of
+ * the steps executed so far.
+ */
+export function resolveStepReferences(payload: Record<string, unknown>, results: unknown[]): Record<string, unknown> {
+  const resolved = { ...payload };
+
+  for (const { field, stepIndex, path } of findStepReferences(payload)) {
+    if (stepIndex >= results.length) {
+      throw new Error(`${field} refers to step ${stepIndex}, which has not run yet`);
+    }
+
+    const value = path
+      .split('.')
+      .reduce<unknown>((current, key) => (current as Record<string, unknown> | null | undefined)?.[key], results[stepIndex]);
+
+    if (value === undefined) {
+      throw new Error(`${field} refers to $steps[${stepIndex}].${path}, which step ${stepIndex} did not return`);
+    }
+
+    resolved[field] = value;
+  }
+
+  return resolved;
+}
@@ -1,5 +1,11 @@
 import { z } from 'zod';
-import { ActionTypes, ActionStatus } from '../types/workflow.type.js';
+import {
+  ActionTypes,
+  ActionStatus,
+  UserRoles,
+  LedgerDirections,
+  BalanceAdjustmentReasonCodes,
+} from '../types/workflow.type.js';
 
 const dateString = z
   .string()
@@ -15,6 +21,31 @@ export const createUserSchema = z.object({
   fullName: z.string().optional(),
 });
 
+// Only the fields being changed are sent; the current values are captured at submission
+export const updateUserSchema = z.object({
+  userId: z.string().uuid('Invalid user ID format'),
+  email: z.string().email('Invalid email format').optional(),
+  username: z.string().min(3, 'Username must be at least 3 characters').optional(),
+  fullName: z.string().optional(),
+}).refine(
+  (data) => data.email !== undefined || data.username !== undefined || data.fullName !== undefined,
+  { message: 'At least one of email, username or fullName is required' }
+);
+
+// Deactivation and reactivation only name the user and say why
+export const userStatusChangeSchema = z.object({
+  userId: z.string().uuid('Invalid user ID format'),
+  reason: z.string().min(1, 'A reason is required'),
+});
+
+export const changeUserRoleSchema = z.object({
+  userId: z.string().uuid('Invalid user ID format'),
+  role: z.enum(UserRoles, {
+    errorMap: () => ({ message: `Role must be one of ${UserRoles.join(', ')}` }),
+  }),
+  reason: z.string().min(1, 'A reason is required'),
+});
+
 export const createAccountSchema = z.object({
   userId: z.string().uuid('Invalid user ID format'),
   accountNumber: z.string().min(5, 'Account number must be at least 5 characters'),
@@ -23,6 +54,21 @@ export const createAccountSchema = z.object({
   currency: z.string().length(3, 'Currency must be 3 characters').optional(),
 });
 
+export const balanceAdjustmentSchema = z.object({
+  accountId: z.string().uuid('Invalid account ID format'),
+  direction: z.enum(LedgerDirections, {
+    errorMap: () => ({ message: 'Direction must be credit or debit' }),
+  }),
+  amount: z
+    .string()
+    .regex(/^\d+(\.\d{1,2})?$/, 'Invalid amount format')
+    .refine((v) => Number(v) > 0, 'Amount must be greater than 0'),
+  reasonCode: z.enum(BalanceAdjustmentReasonCodes, {
+    errorMap: () => ({ message: `Reason code must be one of ${BalanceAdjustmentReasonCodes.join(', ')}` }),
+  }),
+  note: z.string().max(500, 'Note must be at most 500 characters').optional(),
+});
+
 export const createPromotionSchema = z.object({
   code: z.string().min(3, 'Promotion code must be at least 3 characters'),
   name: z.string().min(1, 'Promotion name is required'),
@@ -35,21 +81,123 @@ export const createPromotionSchema = z.object({
   endDate: dateString,
 });
 
+export const reverseActionPayloadSchema = z.object({
+  originalActionId: z.string().uuid('Invalid action ID format'),
+  reason: z.string().min(1, 'A reason is required to reverse an action'),
+});
+
+export const MAX_BUNDLE_STEPS = 10;
+export const MAX_DEPENDENCIES = 20;
+
+// Step payloads are checked against their own action type's schema by the bundle handler
+export const bundleSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        actionType: z.enum([ActionTypes.CREATE_USER, ActionTypes.CREATE_ACCOUNT, ActionTypes.CREATE_PROMOTION]),
+        payload: z.record(z.unknown()),
+      })
+    )
+    .min(1, 'A bundle needs at least one step')
+    .max(MAX_BUNDLE_STEPS, `A bundle can have at most ${MAX_BUNDLE_STEPS} steps`),
+});
+
+export const actionPayloadSchemas: Record<string, z.ZodTypeAny> = {
+  [ActionTypes.CREATE_USER]: createUserSchema,
+  [ActionTypes.UPDATE_USER]: updateUserSchema,
+  [ActionTypes.DEACTIVATE_USER]: userStatusChangeSchema,
+  [ActionTypes.REACTIVATE_USER]: userStatusChangeSchema,
+  [ActionTypes.CHANGE_USER_ROLE]: changeUserRoleSchema,
+  [ActionTypes.CREATE_ACCOUNT]: createAccountSchema,
+  [ActionTypes.BALANCE_ADJUSTMENT]: balanceAdjustmentSchema,
+  [ActionTypes.CREATE_PROMOTION]: createPromotionSchema,
+  [ActionTypes.REVERSE_ACTION]: reverseActionPayloadSchema,
+  [ActionTypes.BUNDLE]: bundleSchema,
+};
+
 export const createWorkflowActionSchema = z.object({
-  actionType: z.enum([ActionTypes.CREATE_USER, ActionTypes.CREATE_ACCOUNT, ActionTypes.CREATE_PROMOTION]),
-  payload: z.union([createUserSchema, createAccountSchema, createPromotionSchema]),
-  makerId: z.string().min(1, 'Maker ID is required'),
+  actionType: z.enum([
+    ActionTypes.CREATE_USER,
+    ActionTypes.UPDATE_USER,
+    ActionTypes.DEACTIVATE_USER,
+    ActionTypes.REACTIVATE_USER,
+    ActionTypes.CHANGE_USER_ROLE,
+    ActionTypes.CREATE_ACCOUNT,
+    ActionTypes.BALANCE_ADJUSTMENT,
+    ActionTypes.CREATE_PROMOTION,
+    ActionTypes.BUNDLE,
+  ]),
+  payload: z.record(z.unknown()),
+  // Approved actions wait until this moment before they are executed
+  effectiveAt: z.string().datetime({ offset: true }).optional(),
+  // Actions that must have executed before this one may execute
+  dependsOn: z
+    .array(z.string().uuid('Invalid action ID format'))
+    .max(MAX_DEPENDENCIES, `An action can depend on at most ${MAX_DEPENDENCIES} actions`)
+    .optional(),
+  // Deprecated: the maker is the authenticated user; a different id is rejected
+  makerId: z.string().optional(),
+}).transform((data, ctx) => {
+  // Payload shapes overlap (update_user vs create_user), so check against the declared type only
+  const parsed = actionPayloadSchemas[data.actionType].safeParse(data.payload);
+  if (!parsed.success) {
+    parsed.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ['payload', ...issue.path] }));
+    return z.NEVER;
+  }
+
+  return { ...data, payload: parsed.data };
 });
 
+const payloadHash = z.string().regex(/^[a-f0-9]{64}$/, 'Payload hash must be a hex SHA-256 digest');
+
 export const reviewActionSchema = z.object({
-  status: z.enum([ActionStatus.APPROVED, ActionStatus.REJECTED]),
-  checkerId: z.string().min(1, 'Checker ID is required'),
+  status: z.enum([ActionStatus.APPROVED, ActionStatus.REJECTED, ActionStatus.CHANGES_REQUESTED]),
+  // Deprecated: the checker is the authenticated user; a different id is rejected
+  checkerId: z.string().optional(),
   reviewComment: z.string().optional(),
+  payloadHash: payloadHash.optional(),
+}).refine(
+  (data) => data.status !== ActionStatus.CHANGES_REQUESTED || !!data.reviewComment?.trim(),
+  { message: 'A comment is required when requesting changes', path: ['reviewComment'] }
+).refine(
+  (data) => data.status !== ActionStatus.APPROVED || !!data.payloadHash,
+  { message: 'The hash of the reviewed payload is required to approve', path: ['payloadHash'] }
+);
+
+export const retryExecutionSchema = z.object({
+  // Deprecated: the checker is the authenticated user; a different id is rejected
+  checkerId: z.string().optional(),
+});
+
+export const transitionActionSchema = z.object({
+  comment: z.string().optional(),
+  payloadHash: payloadHash.optional(),
+});
+
+export const resubmitActionSchema = z.object({
+  payload: z.record(z.unknown()),
+  comment: z.string().optional(),
+});
+
+export const reverseActionSchema = z.object({
+  reason: z.string().min(1, 'A reason is required to reverse an action'),
+});
+
+export const withdrawActionSchema = z.object({
+  reason: z.string().optional(),
 });
 
 export const listActionsQuerySchema = z.object({
-  status: z.enum([ActionStatus.PENDING, ActionStatus.APPROVED, ActionStatus.REJECTED]).optional(),
-  actionType: z.enum([ActionTypes.CREATE_USER, ActionTypes.CREATE_ACCOUNT, ActionTypes.CREATE_PROMOTION]).optional(),
+  // States come from workflow definitions, so any state name is a valid filter
+  status: z.string().min(1).max(20).optional(),
+  excludeStatus: z.string().transform((v) => v.split(',').filter(Boolean)).optional(),
+  // Every action type, including reversals, can be filtered on
+  actionType: z.nativeEnum(ActionTypes).optional(),
   page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
   limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
-});
\ No newline at end of file
+});
+
+export const ledgerQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
+});
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { DetailViewProps } from 'shared-types';
+import {
+    Scale,
+    Hash,
+    ArrowUpCircle,
+    ArrowDownCircle,
+    CheckCircle,
+    XCircle
+} from 'lucide-react';
+
+interface BalanceAdjustmentPayload {
+    accountId: string;
+    direction: 'credit' | 'debit';
+    amount: string;
+    reasonCode: string;
+    note?: string;
+}
+
+export const BalanceAdjustmentDetailView: React.FC<DetailViewProps> = ({
+    isChecker,
+    data,
+    status,
+    onApprove,
+    onReject,
+}) => {
+    const [rejectReason, setRejectReason] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const payload = data as BalanceAdjustmentPayload;
+    const isDebit = payload.direction === 'debit';
+    const canReview = status === 'PENDING' && isChecker;
+
+    const handleApprove = async () => {
+        setIsProcessing(true);
+        try {
+            await onApprove();
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!rejectReason.trim()) return;
+
+        setIsProcessing(true);
+        try {
+            await onReject(rejectReason);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    return (
+        <div className="bg-white">
+            <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 flex items-center gap-3">
+                <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+                    <Scale size={20} />
+                </div>
+                <h3 className="text-lg font-bold text-slate-800">Balance Adjustment</h3>
+            </div>
+
+            <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Account ID</label>
+                    <div className="flex items-center gap-2 text-slate-800 font-mono text-sm tracking-tight bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-100">
+                        <Hash size={14} className="text-slate-400" />
+                        {payload.accountId}
+                    </div>
+                </div>
+
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Amount</label>
+                    <div className={`font-bold text-xl flex items-center gap-2 ${isDebit ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {isDebit ? <ArrowDownCircle size={20} /> : <ArrowUpCircle size={20} />}
+                        {isDebit ? '-' : '+'}
+                        {Number(payload.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                    </div>
+                </div>
+
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Reason Code</label>
+                    <div className="text-slate-700 font-medium capitalize">{payload.reasonCode}</div>
+                </div>
+
+                {payload.note && (
+                    <div className="space-y-1">
+                        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Note</label>
+                        <p className="text-slate-700 italic">"{payload.note}"</p>
+                    </div>
+                )}
+            </div>
+
+            {canReview && (
+                <div className="p-6 bg-slate-50 border-t border-slate-100 space-y-3">
+                    {isDebit && (
+                        <p className="text-sm text-slate-500">
+                            The debit is refused on approval if the account balance no longer covers it.
+                        </p>
+                    )}
+                    <textarea
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        className="w-full p-3 bg-white border border-slate-200 rounded-lg text-sm min-h-[80px]"
+                        placeholder="Reason for rejecting the adjustment..."
+                        disabled={isProcessing}
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            onClick={handleApprove}
+                            disabled={isProcessing}
+                            className="flex items-center gap-2 px-5 py-2.5 bg-emerald-600 text-white rounded-lg font-bold hover:bg-emerald-700 transition-all disabled:opacity-50"
+                        >
+                            <CheckCircle size={18} />
+                            Approve
+                        </button>
+                        <button
+                            onClick={handleReject}
+                            disabled={isProcessing || !rejectReason.trim()}
+                            className="flex items-center gap-2 px-5 py-2.5 border border-red-300 text-red-600 rounded-lg font-bold hover:bg-red-50 transition-all disabled:opacity-50"
+                        >
+                            <XCircle size={18} />
+                            Reject
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
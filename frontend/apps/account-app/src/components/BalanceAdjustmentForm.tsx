@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { CreateFormProps } from 'shared-types';
+import {
+    Scale,
+    Hash,
+    DollarSign,
+    Tag,
+    FileText,
+    Send,
+    X,
+    AlertCircle
+} from 'lucide-react';
+
+const REASON_CODES = [
+    { value: 'correction', label: 'Correction' },
+    { value: 'fee', label: 'Fee' },
+    { value: 'interest', label: 'Interest' },
+    { value: 'refund', label: 'Refund' },
+    { value: 'goodwill', label: 'Goodwill' },
+    { value: 'chargeback', label: 'Chargeback' },
+];
+
+export const BalanceAdjustmentForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel, initialData }) => {
+    const initial = (initialData ?? {}) as Partial<Record<'accountId' | 'direction' | 'amount' | 'reasonCode' | 'note', string>>;
+    const [formData, setFormData] = useState({
+        accountId: initial.accountId ?? '',
+        direction: initial.direction ?? 'credit',
+        amount: initial.amount ?? '',
+        reasonCode: initial.reasonCode ?? 'correction',
+        note: initial.note ?? '',
+    });
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const validateForm = (): boolean => {
+        const newErrors: Record<string, string> = {};
+
+        if (!formData.accountId) {
+            newErrors.accountId = 'Account ID is required';
+        } else if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(formData.accountId)) {
+            newErrors.accountId = 'Invalid account ID format';
+        }
+
+        if (!formData.amount) {
+            newErrors.amount = 'Amount is required';
+        } else if (!/^\d+(\.\d{1,2})?$/.test(formData.amount) || Number(formData.amount) <= 0) {
+            newErrors.amount = 'Amount must be a positive number with up to 2 decimals';
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!validateForm()) {
+            return;
+        }
+
+        setIsSubmitting(true);
+
+        try {
+            await onSubmit({
+                actionType: 'balance_adjustment',
+                accountId: formData.accountId,
+                direction: formData.direction,
+                amount: formData.amount,
+                reasonCode: formData.reasonCode,
+                ...(formData.note.trim() && { note: formData.note.trim() }),
+            });
+        } catch (error) {
+            console.error('Error submitting form:', error);
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleChange = (field: string, value: string) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        if (errors[field]) {
+            setErrors(prev => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm max-w-xl mx-auto">
+            <div className="px-8 py-6 bg-slate-50 border-b border-slate-100">
+                <div className="flex items-center gap-3 mb-1">
+                    <div className="p-2 bg-emerald-600 text-white rounded-lg">
+                        <Scale size={20} />
+                    </div>
+                    <h2 className="text-xl font-bold text-slate-800">Adjust Balance</h2>
+                </div>
+                <p className="text-sm text-slate-500">
+                    Once approved, the adjustment is posted to the account's ledger. Debits that would overdraw the account are refused.
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                {/* Account ID */}
+                <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <Hash size={12} />
+                        Account ID <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                        type="text"
+                        value={formData.accountId}
+                        onChange={(e) => handleChange('accountId', e.target.value)}
+                        className={`w-full px-4 py-2.5 bg-slate-50 border ${errors.accountId ? 'border-red-300 bg-red-50/30' : 'border-slate-200'} rounded-xl text-sm font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/10 focus:border-emerald-500 transition-all placeholder:text-slate-300`}
+                        placeholder="e.g. 3f2b8c1e-..."
+                        disabled={isSubmitting}
+                    />
+                    {errors.accountId && (
+                        <span className="flex items-center gap-1.5 text-xs text-red-500 font-medium">
+                            <AlertCircle size={12} />
+                            {errors.accountId}
+                        </span>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {/* Direction */}
+                    <div className="space-y-1.5">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Direction</label>
+                        <select
+                            value={formData.direction}
+                            onChange={(e) => handleChange('direction', e.target.value)}
+                            className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/10 focus:border-emerald-500 transition-all appearance-none cursor-pointer"
+                            disabled={isSubmitting}
+                        >
+                            <option value="credit">Credit (add funds)</option>
+                            <option value="debit">Debit (remove funds)</option>
+                        </select>
+                    </div>
+
+                    {/* Reason Code */}
+                    <div className="space-y-1.5">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                            <Tag size={12} />
+                            Reason Code
+                        </label>
+                        <select
+                            value={formData.reasonCode}
+                            onChange={(e) => handleChange('reasonCode', e.target.value)}
+                            className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/10 focus:border-emerald-500 transition-all appearance-none cursor-pointer"
+                            disabled={isSubmitting}
+                        >
+                            {REASON_CODES.map((code) => (
+                                <option key={code.value} value={code.value}>{code.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {/* Amount */}
+                <div className="space-y-1.5 p-5 bg-emerald-50/30 rounded-2xl border border-emerald-100/50">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <DollarSign size={12} />
+                        Amount <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                        type="text"
+                        value={formData.amount}
+                        onChange={(e) => handleChange('amount', e.target.value)}
+                        className={`w-full px-4 py-3 bg-white border ${errors.amount ? 'border-red-300' : 'border-slate-200'} rounded-xl text-lg font-bold text-slate-800 focus:outline-none focus:ring-2 focus:ring-emerald-500/10 focus:border-emerald-500 transition-all shadow-sm`}
+                        placeholder="0.00"
+                        disabled={isSubmitting}
+                    />
+                    {errors.amount && (
+                        <span className="flex items-center gap-1.5 text-xs text-red-500 font-medium pt-1">
+                            <AlertCircle size={12} />
+                            {errors.amount}
+                        </span>
+                    )}
+                </div>
+
+                {/* Note */}
+                <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <FileText size={12} />
+                        Note
+                    </label>
+                    <textarea
+                        value={formData.note}
+                        onChange={(e) => handleChange('note', e.target.value)}
+                        className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm min-h-[80px] focus:outline-none focus:ring-2 focus:ring-emerald-500/10 focus:border-emerald-500 transition-all placeholder:text-slate-300"
+                        placeholder="e.g. Duplicate card fee charged on 2024-05-02"
+                        maxLength={500}
+                        disabled={isSubmitting}
+                    />
+                </div>
+
+                {/* Actions */}
+                <div className="flex items-center gap-3 pt-6 border-t border-slate-100">
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-600/20 active:scale-95 disabled:opacity-50"
+                    >
+                        {isSubmitting ? (
+                            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        ) : (
+                            <>
+                                <Send size={18} />
+                                Submit for Review
+                            </>
+                        )}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        disabled={isSubmitting}
+                        className="px-6 py-3 bg-white border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-all active:scale-95 disabled:opacity-50 flex items-center gap-2"
+                    >
+                        <X size={18} />
+                        Cancel
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
@@ -12,13 +12,14 @@ import {
     PiggyBank
 } from 'lucide-react';
 
-export const CreateAccountForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel }) => {
+export const CreateAccountForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel, initialData }) => {
+    const initial = (initialData ?? {}) as Partial<Record<'userId' | 'accountNumber' | 'accountType' | 'balance' | 'currency', string>>;
     const [formData, setFormData] = useState({
-        userId: '',
-        accountNumber: '',
-        accountType: 'savings',
-        balance: '',
-        currency: 'USD',
+        userId: initial.userId ?? '',
+        accountNumber: initial.accountNumber ?? '',
+        accountType: initial.accountType ?? 'savings',
+        balance: initial.balance ?? '',
+        currency: initial.currency ?? 'USD',
     });
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
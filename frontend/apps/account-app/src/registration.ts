@@ -1,6 +1,8 @@
 import { WorkflowComponentRegistration } from 'shared-types';
 import { CreateAccountForm } from './components/CreateAccountForm';
 import { AccountDetailView } from './components/AccountDetailView';
+import { BalanceAdjustmentForm } from './components/BalanceAdjustmentForm';
+import { BalanceAdjustmentDetailView } from './components/BalanceAdjustmentDetailView';
 
 export const accountWorkflowRegistration: WorkflowComponentRegistration = {
     actionType: 'create_account',
@@ -15,3 +17,17 @@ export const accountWorkflowRegistration: WorkflowComponentRegistration = {
         DetailView: AccountDetailView,
     },
 };
+
+export const balanceAdjustmentWorkflowRegistration: WorkflowComponentRegistration = {
+    actionType: 'balance_adjustment',
+    metadata: {
+        name: 'Balance Adjustment',
+        description: 'Credit or debit an account with a reason code, recorded in its ledger',
+        category: 'Account Management',
+        icon: '⚖️',
+    },
+    components: {
+        CreateForm: BalanceAdjustmentForm,
+        DetailView: BalanceAdjustmentDetailView,
+    },
+};
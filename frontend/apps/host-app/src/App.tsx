@@ -1,6 +1,8 @@
 import React, { JSX, useEffect, useState } from "react";
 import { PlusCircle, ListTodo, ChevronRight, LogOut } from "lucide-react";
 import { componentRegistry } from "./lib/registry";
+import { reversalWorkflowRegistration } from "./components/Reversal";
+import { bundleWorkflowRegistration } from "./components/Bundle";
 import {
   CreateActionPage,
   ActionsListPage,
@@ -18,15 +20,29 @@ import {
 
 // Dynamically import MFE registrations
 const loadMFERegistrations = async () => {
+  componentRegistry.register(reversalWorkflowRegistration);
+  componentRegistry.register(bundleWorkflowRegistration);
+
   try {
-    const { userWorkflowRegistration } = await import("user_app/workflow");
-    const { accountWorkflowRegistration } =
+    const {
+      userWorkflowRegistration,
+      updateUserWorkflowRegistration,
+      deactivateUserWorkflowRegistration,
+      reactivateUserWorkflowRegistration,
+      changeUserRoleWorkflowRegistration,
+    } = await import("user_app/workflow");
+    const { accountWorkflowRegistration, balanceAdjustmentWorkflowRegistration } =
       await import("account_app/workflow");
     const { promotionWorkflowRegistration } =
       await import("promotion_app/workflow");
 
     componentRegistry.register(userWorkflowRegistration);
+    componentRegistry.register(updateUserWorkflowRegistration);
+    componentRegistry.register(deactivateUserWorkflowRegistration);
+    componentRegistry.register(reactivateUserWorkflowRegistration);
+    componentRegistry.register(changeUserRoleWorkflowRegistration);
     componentRegistry.register(accountWorkflowRegistration);
+    componentRegistry.register(balanceAdjustmentWorkflowRegistration);
     componentRegistry.register(promotionWorkflowRegistration);
 
     console.log("✅ All MFE workflow components registered successfully");
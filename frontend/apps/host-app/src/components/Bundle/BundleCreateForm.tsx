@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { CreateFormProps } from 'shared-types';
+import { BundlePayload } from './types';
+
+// A new user with an account; the account step takes the user id created by step 0
+const ONBOARDING_TEMPLATE: BundlePayload = {
+    steps: [
+        {
+            actionType: 'create_user',
+            payload: { email: 'jane@example.com', username: 'jane', fullName: 'Jane Doe' },
+        },
+        {
+            actionType: 'create_account',
+            payload: { userId: '$steps[0].id', accountNumber: 'ACC-10001', accountType: 'savings', currency: 'USD' },
+        },
+    ],
+};
+
+const parseSteps = (text: string): BundlePayload => {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed?.steps) || parsed.steps.length === 0) {
+        throw new Error('The bundle needs a non-empty "steps" array');
+    }
+    return parsed;
+};
+
+export const BundleCreateForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel, initialData }) => {
+    const [text, setText] = useState(() => JSON.stringify(initialData ?? ONBOARDING_TEMPLATE, null, 2));
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        let payload: BundlePayload;
+        try {
+            payload = parseSteps(text);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid JSON');
+            return;
+        }
+
+        setError(null);
+        setIsSubmitting(true);
+        try {
+            await onSubmit(payload);
+        } catch (error) {
+            console.error('Error submitting form:', error);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div>
+                <label htmlFor="bundleSteps" className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">
+                    Steps
+                </label>
+                <p className="text-xs text-slate-500 mb-2">
+                    Each step is an action type and its payload. A value of <code className="font-mono">$steps[0].id</code> is
+                    replaced with the <code className="font-mono">id</code> returned by step 0 when the bundle executes.
+                </p>
+                <textarea
+                    id="bundleSteps"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    className="w-full p-3 bg-white border border-slate-200 rounded-lg text-sm font-mono min-h-[320px]"
+                    spellCheck={false}
+                    disabled={isSubmitting}
+                />
+                {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+            </div>
+            <div className="flex gap-3">
+                <button
+                    type="submit"
+                    disabled={isSubmitting || !text.trim()}
+                    className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 transition-all disabled:opacity-50"
+                >
+                    Submit Bundle
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-5 py-2.5 text-slate-500 font-medium hover:bg-slate-100 rounded-lg transition-all"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { DetailViewProps } from 'shared-types';
+import { Package, Link2, CheckCircle, XCircle } from 'lucide-react';
+import { BundlePayload, STEP_REFERENCE, formatActionType } from './types';
+
+export const BundleDetailView: React.FC<DetailViewProps> = ({
+    isChecker,
+    data,
+    status,
+    onApprove,
+    onReject,
+}) => {
+    const [rejectReason, setRejectReason] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const payload = data as BundlePayload;
+    const canReview = status === 'PENDING' && isChecker;
+
+    const handleApprove = async () => {
+        setIsProcessing(true);
+        try {
+            await onApprove();
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!rejectReason.trim()) return;
+
+        setIsProcessing(true);
+        try {
+            await onReject(rejectReason);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    return (
+        <div className="bg-white">
+            <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 flex items-center gap-3">
+                <div className="p-2 bg-indigo-100 text-indigo-600 rounded-lg">
+                    <Package size={20} />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800">Bundle of {payload.steps.length} Steps</h3>
+                    <p className="text-xs text-slate-500">Steps run in order; if one fails, none of them take effect.</p>
+                </div>
+            </div>
+
+            <ol className="p-6 space-y-4">
+                {payload.steps.map((step, index) => (
+                    <li key={index} className="border border-slate-200 rounded-lg overflow-hidden">
+                        <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex items-center gap-2">
+                            <span className="text-xs font-bold text-slate-400">STEP {index}</span>
+                            <span className="text-sm font-semibold text-slate-700">{formatActionType(step.actionType)}</span>
+                        </div>
+                        <dl className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                            {Object.entries(step.payload).map(([field, value]) => {
+                                const isReference = typeof value === 'string' && STEP_REFERENCE.test(value);
+                                return (
+                                    <div key={field}>
+                                        <dt className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{field}</dt>
+                                        <dd className={isReference ? 'flex items-center gap-1 font-mono text-indigo-600' : 'text-slate-700 break-all'}>
+                                            {isReference && <Link2 size={14} />}
+                                            {String(value)}
+                                        </dd>
+                                    </div>
+                                );
+                            })}
+                        </dl>
+                    </li>
+                ))}
+            </ol>
+
+            {canReview && (
+                <div className="p-6 bg-slate-50 border-t border-slate-100 space-y-3">
+                    <textarea
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        className="w-full p-3 bg-white border border-slate-200 rounded-lg text-sm min-h-[80px]"
+                        placeholder="Reason for rejecting the bundle..."
+                        disabled={isProcessing}
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            onClick={handleApprove}
+                            disabled={isProcessing}
+                            className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 transition-all disabled:opacity-50"
+                        >
+                            <CheckCircle size={18} />
+                            Approve All Steps
+                        </button>
+                        <button
+                            onClick={handleReject}
+                            disabled={isProcessing || !rejectReason.trim()}
+                            className="flex items-center gap-2 px-5 py-2.5 border border-red-300 text-red-600 rounded-lg font-bold hover:bg-red-50 transition-all disabled:opacity-50"
+                        >
+                            <XCircle size={18} />
+                            Reject
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1 @@
+export { bundleWorkflowRegistration } from './registration';
@@ -0,0 +1,18 @@
+import { WorkflowComponentRegistration } from 'shared-types';
+import { BundleCreateForm } from './BundleCreateForm';
+import { BundleDetailView } from './BundleDetailView';
+
+// Bundles combine steps owned by different micro frontends, so the host provides their components
+export const bundleWorkflowRegistration: WorkflowComponentRegistration = {
+    actionType: 'bundle',
+    metadata: {
+        name: 'Bundle',
+        description: 'Submit several actions for a single review and execute them together',
+        category: 'Governance',
+        icon: '📦',
+    },
+    components: {
+        CreateForm: BundleCreateForm,
+        DetailView: BundleDetailView,
+    },
+};
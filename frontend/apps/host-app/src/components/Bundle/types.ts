@@ -0,0 +1,14 @@
+export interface BundleStep {
+    actionType: string;
+    payload: Record<string, unknown>;
+}
+
+export interface BundlePayload {
+    steps: BundleStep[];
+}
+
+// Matches a payload value taken from an earlier step's result, e.g. "$steps[0].id"
+export const STEP_REFERENCE = /^\$steps\[(\d+)\]\.[\w.$]+$/;
+
+export const formatActionType = (actionType: string) =>
+    actionType.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
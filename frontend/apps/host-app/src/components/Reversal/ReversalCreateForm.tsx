@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { CreateFormProps } from 'shared-types';
+
+// Reversals are opened from the executed action; this form only edits one sent back for changes
+export const ReversalCreateForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel, initialData }) => {
+    const initial = (initialData ?? {}) as Partial<Record<'originalActionId' | 'reason', string>>;
+    const [reason, setReason] = useState(initial.reason ?? '');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reason.trim()) return;
+
+        setIsSubmitting(true);
+        try {
+            await onSubmit({ originalActionId: initial.originalActionId, reason });
+        } catch (error) {
+            console.error('Error submitting form:', error);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div>
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Reverses Action</span>
+                <span className="font-mono text-sm text-slate-700">{initial.originalActionId}</span>
+            </div>
+            <div>
+                <label htmlFor="reversalReason" className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">
+                    Reason
+                </label>
+                <textarea
+                    id="reversalReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="w-full p-3 bg-white border border-slate-200 rounded-lg text-sm min-h-[80px]"
+                    disabled={isSubmitting}
+                />
+            </div>
+            <div className="flex gap-3">
+                <button
+                    type="submit"
+                    disabled={isSubmitting || !reason.trim()}
+                    className="px-5 py-2.5 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 transition-all disabled:opacity-50"
+                >
+                    Resubmit Reversal
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-5 py-2.5 text-slate-500 font-medium hover:bg-slate-100 rounded-lg transition-all"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { DetailViewProps } from 'shared-types';
+import { Link } from 'react-router-dom';
+import { Undo2, CheckCircle, XCircle } from 'lucide-react';
+
+interface ReversalPayload {
+    originalActionId: string;
+    reason: string;
+}
+
+export const ReversalDetailView: React.FC<DetailViewProps> = ({
+    isChecker,
+    data,
+    status,
+    onApprove,
+    onReject,
+}) => {
+    const [rejectReason, setRejectReason] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const payload = data as ReversalPayload;
+    const canReview = status === 'PENDING' && isChecker;
+
+    const handleApprove = async () => {
+        setIsProcessing(true);
+        try {
+            await onApprove();
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!rejectReason.trim()) return;
+
+        setIsProcessing(true);
+        try {
+            await onReject(rejectReason);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    return (
+        <div className="bg-white">
+            <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 flex items-center gap-3">
+                <div className="p-2 bg-purple-100 text-purple-600 rounded-lg">
+                    <Undo2 size={20} />
+                </div>
+                <h3 className="text-lg font-bold text-slate-800">Reversal Request</h3>
+            </div>
+
+            <div className="p-6 space-y-4 text-sm">
+                <div>
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Reverses Action</span>
+                    <Link to={`/actions/${payload.originalActionId}`} className="font-mono text-blue-600 hover:underline">
+                        {payload.originalActionId}
+                    </Link>
+                </div>
+                <div>
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Reason</span>
+                    <p className="text-slate-700 italic">"{payload.reason}"</p>
+                </div>
+                <p className="text-slate-500">
+                    Approving removes or deactivates the record the original action created.
+                </p>
+            </div>
+
+            {canReview && (
+                <div className="p-6 bg-slate-50 border-t border-slate-100 space-y-3">
+                    <textarea
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        className="w-full p-3 bg-white border border-slate-200 rounded-lg text-sm min-h-[80px]"
+                        placeholder="Reason for rejecting the reversal..."
+                        disabled={isProcessing}
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            onClick={handleApprove}
+                            disabled={isProcessing}
+                            className="flex items-center gap-2 px-5 py-2.5 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 transition-all disabled:opacity-50"
+                        >
+                            <CheckCircle size={18} />
+                            Approve Reversal
+                        </button>
+                        <button
+                            onClick={handleReject}
+                            disabled={isProcessing || !rejectReason.trim()}
+                            className="flex items-center gap-2 px-5 py-2.5 border border-red-300 text-red-600 rounded-lg font-bold hover:bg-red-50 transition-all disabled:opacity-50"
+                        >
+                            <XCircle size={18} />
+                            Reject
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
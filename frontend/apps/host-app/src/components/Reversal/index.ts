@@ -0,0 +1 @@
+export { reversalWorkflowRegistration } from './registration';
@@ -0,0 +1,18 @@
+import { WorkflowComponentRegistration } from 'shared-types';
+import { ReversalCreateForm } from './ReversalCreateForm';
+import { ReversalDetailView } from './ReversalDetailView';
+
+// Reversals apply to every micro frontend's actions, so the host provides their components
+export const reversalWorkflowRegistration: WorkflowComponentRegistration = {
+    actionType: 'reverse_action',
+    metadata: {
+        name: 'Reverse Action',
+        description: 'Undo the effect of an executed action',
+        category: 'Governance',
+        icon: '↩️',
+    },
+    components: {
+        CreateForm: ReversalCreateForm,
+        DetailView: ReversalDetailView,
+    },
+};
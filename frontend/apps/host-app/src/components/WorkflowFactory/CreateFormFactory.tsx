@@ -5,19 +5,23 @@ import { CreateFormProps } from 'shared-types';
 
 interface CreateFormFactoryProps {
     actionType: string;
-    makerId: string;
     onSuccess: () => void;
     onCancel: () => void;
 }
 
 export const CreateFormFactory: React.FC<CreateFormFactoryProps> = ({
     actionType,
-    makerId,
     onSuccess,
     onCancel,
 }) => {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // One key per form, so a double submit or a retry after a timeout can't create a second action
+    const [idempotencyKey] = useState(() => crypto.randomUUID());
+    // Optional local date-time; left empty the action executes as soon as it is approved
+    const [effectiveAt, setEffectiveAt] = useState('');
+    // Comma or whitespace separated ids of actions that must execute first
+    const [dependsOn, setDependsOn] = useState('');
 
     const registration = componentRegistry.getRegistration(actionType);
 
@@ -39,7 +43,13 @@ export const CreateFormFactory: React.FC<CreateFormFactoryProps> = ({
         setError(null);
 
         try {
-            await createAction(actionType, payload, makerId);
+            await createAction(
+                actionType,
+                payload,
+                idempotencyKey,
+                effectiveAt ? new Date(effectiveAt).toISOString() : undefined,
+                dependsOn.trim() ? dependsOn.split(/[\s,]+/).filter(Boolean) : undefined
+            );
             onSuccess();
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Failed to create action';
@@ -83,6 +93,39 @@ export const CreateFormFactory: React.FC<CreateFormFactoryProps> = ({
                 </div>
             )}
 
+            <div style={{ marginBottom: '16px' }}>
+                <label htmlFor="effectiveAt" style={{ display: 'block', fontWeight: 600, marginBottom: '4px' }}>
+                    Effective date (optional)
+                </label>
+                <input
+                    id="effectiveAt"
+                    type="datetime-local"
+                    value={effectiveAt}
+                    onChange={(e) => setEffectiveAt(e.target.value)}
+                    style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px' }}
+                />
+                <p style={{ margin: '4px 0 0', fontSize: '12px', color: '#666' }}>
+                    Approved actions wait until this time before they take effect.
+                </p>
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+                <label htmlFor="dependsOn" style={{ display: 'block', fontWeight: 600, marginBottom: '4px' }}>
+                    Depends on (optional)
+                </label>
+                <input
+                    id="dependsOn"
+                    type="text"
+                    value={dependsOn}
+                    onChange={(e) => setDependsOn(e.target.value)}
+                    placeholder="Action IDs, separated by commas"
+                    style={{ width: '100%', padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontFamily: 'monospace' }}
+                />
+                <p style={{ margin: '4px 0 0', fontSize: '12px', color: '#666' }}>
+                    This action can only execute once these actions have executed, and is blocked if any of them is rejected.
+                </p>
+            </div>
+
             <CreateForm {...formProps} />
         </div>
     );
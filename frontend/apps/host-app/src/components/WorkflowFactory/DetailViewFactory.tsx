@@ -1,9 +1,41 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { componentRegistry } from '../../lib/registry';
-import { getActionById, reviewAction, WorkflowAction } from '../../lib/api';
+import {
+    getActionById,
+    reviewAction,
+    retryExecution,
+    withdrawAction,
+    resubmitAction,
+    reverseAction,
+    previewAction,
+    ActionPreview,
+    WorkflowAction,
+    WorkflowActionStatus,
+} from '../../lib/api';
+import { hashPayload } from '../../lib/payload-hash';
 import { DetailViewProps } from 'shared-types';
 import { useAuth } from '../../context/AuthContext';
 
+// Micro frontends only know the review outcome, so execution states collapse onto it
+// and every other closed state reads as not approved
+const toDetailViewStatus = (status: WorkflowActionStatus): DetailViewProps['status'] => {
+    switch (status) {
+        case 'pending':
+        case 'approval_lapsed':
+            return 'PENDING';
+        case 'approved':
+        case 'approved_scheduled':
+        case 'executing':
+        case 'executed':
+        case 'execution_failed':
+        case 'reversed':
+            return 'APPROVED';
+        default:
+            return 'REJECTED';
+    }
+};
+
 interface DetailViewFactoryProps {
     actionId: string;
     checkerId: string;
@@ -15,11 +47,13 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
     checkerId,
     onReviewComplete,
 }) => {
-    const { isChecker } = useAuth();
+    const { isChecker, isMaker } = useAuth();
     const [action, setAction] = useState<WorkflowAction | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isReviewing, setIsReviewing] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [preview, setPreview] = useState<ActionPreview | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
 
     useEffect(() => {
         loadAction();
@@ -28,6 +62,7 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
     const loadAction = async () => {
         setIsLoading(true);
         setError(null);
+        setPreview(null);
 
         try {
             const data = await getActionById(actionId);
@@ -48,7 +83,9 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
         setError(null);
 
         try {
-            await reviewAction(actionId, 'approved', checkerId, comment);
+            // Bind the approval to the payload rendered on screen
+            const payloadHash = await hashPayload(action.payload);
+            await reviewAction(actionId, 'approved', comment, payloadHash);
             loadAction(); // Refresh state
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Failed to approve action';
@@ -66,7 +103,7 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
         setError(null);
 
         try {
-            await reviewAction(actionId, 'rejected', checkerId, comment);
+            await reviewAction(actionId, 'rejected', comment, await hashPayload(action.payload));
             loadAction(); // Refresh state
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Failed to reject action';
@@ -77,6 +114,124 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
         }
     };
 
+    const handleRequestChanges = async () => {
+        if (!action) return;
+
+        const comment = window.prompt('What should the maker change?');
+        if (!comment?.trim()) return;
+
+        setIsReviewing(true);
+        setError(null);
+
+        try {
+            await reviewAction(actionId, 'changes_requested', comment, await hashPayload(action.payload));
+            loadAction(); // Refresh state
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to request changes';
+            setError(errorMessage);
+            console.error('Error requesting changes:', err);
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
+    const handlePreview = async () => {
+        if (!action) return;
+
+        setIsPreviewing(true);
+        setError(null);
+
+        try {
+            setPreview(await previewAction(actionId));
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to preview action';
+            setError(errorMessage);
+            console.error('Error previewing action:', err);
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const handleResubmit = async (payload: any) => {
+        if (!action) return;
+
+        setIsReviewing(true);
+        setError(null);
+
+        try {
+            await resubmitAction(actionId, payload);
+            loadAction(); // Refresh state
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to resubmit action';
+            setError(errorMessage);
+            console.error('Error resubmitting action:', err);
+            throw err; // Let the form leave its submitting state
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
+    const handleRetryExecution = async () => {
+        if (!action) return;
+
+        setIsReviewing(true);
+        setError(null);
+
+        try {
+            await retryExecution(actionId);
+            loadAction(); // Refresh state
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to retry execution';
+            setError(errorMessage);
+            console.error('Error retrying execution:', err);
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
+    const handleReverse = async () => {
+        if (!action) return;
+
+        const reason = window.prompt('Why should this action be reversed?');
+        if (!reason?.trim()) return;
+
+        setIsReviewing(true);
+        setError(null);
+
+        try {
+            await reverseAction(actionId, reason);
+            loadAction(); // Refresh state
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to reverse action';
+            setError(errorMessage);
+            console.error('Error reversing action:', err);
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
+    const handleWithdraw = async () => {
+        if (!action) return;
+
+        // Cancel keeps the action; an empty reason still withdraws it
+        const reason = window.prompt('Reason for withdrawing this action (optional)');
+        if (reason === null) return;
+
+        setIsReviewing(true);
+        setError(null);
+
+        try {
+            await withdrawAction(actionId, reason.trim() || undefined);
+            loadAction(); // Refresh state
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to withdraw action';
+            setError(errorMessage);
+            console.error('Error withdrawing action:', err);
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
     if (isLoading) {
         return (
             <div className="p-8 text-center text-slate-500">
@@ -115,15 +270,35 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
     }
 
     const DetailView = registration.components.DetailView;
+    const CreateForm = registration.components.CreateForm;
 
     // Determine if current user can review this action
-    // Real RBAC: Status must be pending, user cannot be the maker, AND user must have CHECKER role
-    const canReview = action.status === 'pending' && action.makerId !== checkerId && isChecker;
+    // Real RBAC: Status must be pending, user cannot be the maker, user must have CHECKER role,
+    // AND each checker only gets one vote towards the quorum of the current revision and approval round
+    const reviews = action.reviews ?? [];
+    const currentReviews = reviews.filter(r => r.revision === action.revision && r.approvalRound === action.approvalRound);
+    const isAwaitingApproval = action.status === 'pending' || action.status === 'approval_lapsed';
+    const approvals = currentReviews.filter(r => r.decision === 'approved').length;
+    const hasVoted = currentReviews.some(r => r.checkerId === checkerId);
+    // Overdue actions are refused by the backend even before the expiry job closes them
+    const isOverdue = action.status === 'pending' && !!action.expiresAt && new Date(action.expiresAt) <= new Date();
+    const canReview = isAwaitingApproval && action.makerId !== checkerId && isChecker && !hasVoted && !isOverdue;
+    const canWithdraw = isAwaitingApproval && action.makerId === checkerId && isMaker;
+    const canResubmit = action.status === 'changes_requested' && action.makerId === checkerId && isMaker;
+    const revisions = action.revisions ?? [];
+    const reversals = action.reversals ?? [];
+    // The backend also accounts for a reversal that is still open
+    const canReverse = !!action.reversible && isMaker;
+    const dependencyNodes = new Map((action.dependencyGraph?.nodes ?? []).map(node => [node.id, node]));
+    const dependencyEdges = action.dependencyGraph?.edges ?? [];
+    const prerequisites = dependencyEdges.filter(e => e.actionId === action.id).map(e => dependencyNodes.get(e.dependsOnActionId)!);
+    const dependents = dependencyEdges.filter(e => e.dependsOnActionId === action.id).map(e => dependencyNodes.get(e.actionId)!);
+    const unmetPrerequisites = prerequisites.filter(p => p.status !== 'executed');
 
     const detailViewProps: DetailViewProps = {
         isChecker: isChecker,
         data: action.payload,
-        status: action.status.toUpperCase() as 'PENDING' | 'APPROVED' | 'REJECTED',
+        status: toDetailViewStatus(action.status),
         onApprove: canReview ? handleApprove : () => console.error("Can't approve this action"),
         onReject: canReview ? handleReject : () => console.error("Can't reject this action"),
     };
@@ -141,11 +316,14 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
 
                     <div className="flex flex-col gap-1">
                         <span className="text-slate-500 font-medium">Status</span>
-                        <span className={`inline-flex w-fit px-2.5 py-0.5 rounded-full text-xs font-bold uppercase ${action.status === 'approved' ? 'bg-green-100 text-green-700' :
-                            action.status === 'rejected' ? 'bg-red-100 text-red-700' :
-                                'bg-amber-100 text-amber-700'
+                        <span className={`inline-flex w-fit px-2.5 py-0.5 rounded-full text-xs font-bold uppercase ${action.status === 'approved' || action.status === 'executed' ? 'bg-green-100 text-green-700' :
+                            action.status === 'rejected' || action.status === 'execution_failed' ? 'bg-red-100 text-red-700' :
+                                action.status === 'withdrawn' || action.status === 'expired' || action.status === 'reversed' || action.status === 'blocked' ? 'bg-slate-200 text-slate-600' :
+                                    action.status === 'changes_requested' || action.status === 'approval_lapsed' ? 'bg-orange-100 text-orange-700' :
+                                        action.status === 'approved_scheduled' ? 'bg-blue-100 text-blue-700' :
+                                        'bg-amber-100 text-amber-700'
                             }`}>
-                            {action.status}
+                            {action.status.replace(/_/g, ' ')}
                         </span>
                     </div>
 
@@ -154,6 +332,16 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
                         <span className="font-mono text-xs bg-white px-2 py-1 rounded border border-slate-200 w-fit">{action.makerId}</span>
                     </div>
 
+                    <div className="flex flex-col gap-1">
+                        <span className="text-slate-500 font-medium">Revision</span>
+                        <span className="font-bold text-slate-900">{action.revision}</span>
+                    </div>
+
+                    <div className="flex flex-col gap-1">
+                        <span className="text-slate-500 font-medium">Approvals</span>
+                        <span className="font-bold text-slate-900">{approvals} of {action.requiredApprovals}</span>
+                    </div>
+
                     {action.checkerId && (
                         <div className="flex flex-col gap-1">
                             <span className="text-slate-500 font-medium">Checker ID</span>
@@ -172,6 +360,34 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
                             <span className="text-slate-700 font-medium">{new Date(action.reviewedAt).toLocaleString()}</span>
                         </div>
                     )}
+
+                    {action.expiresAt && action.status === 'pending' && (
+                        <div className="flex flex-col gap-1">
+                            <span className="text-slate-500 font-medium">Expires At</span>
+                            <span className="text-slate-700 font-medium">{new Date(action.expiresAt).toLocaleString()}</span>
+                        </div>
+                    )}
+
+                    {action.approvalExpiresAt && (action.status === 'approved_scheduled' || action.status === 'execution_failed') && (
+                        <div className="flex flex-col gap-1">
+                            <span className="text-slate-500 font-medium">Approval Valid Until</span>
+                            <span className="text-slate-700 font-medium">{new Date(action.approvalExpiresAt).toLocaleString()}</span>
+                        </div>
+                    )}
+
+                    {action.effectiveAt && (
+                        <div className="flex flex-col gap-1">
+                            <span className="text-slate-500 font-medium">Effective At</span>
+                            <span className="text-slate-700 font-medium">{new Date(action.effectiveAt).toLocaleString()}</span>
+                        </div>
+                    )}
+
+                    {action.executedAt && (
+                        <div className="flex flex-col gap-1">
+                            <span className="text-slate-500 font-medium">Executed At</span>
+                            <span className="text-slate-700 font-medium">{new Date(action.executedAt).toLocaleString()}</span>
+                        </div>
+                    )}
                 </div>
 
                 {action.reviewComment && (
@@ -180,6 +396,191 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
                         <p className="text-slate-700 italic">"{action.reviewComment}"</p>
                     </div>
                 )}
+
+                {action.withdrawnAt && (
+                    <div className="mt-4 p-4 bg-white border border-slate-200 rounded-lg">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">
+                            Withdrawn by maker on {new Date(action.withdrawnAt).toLocaleString()}
+                        </span>
+                        {action.withdrawalReason && <p className="text-slate-700 italic">"{action.withdrawalReason}"</p>}
+                    </div>
+                )}
+
+                {action.status === 'approval_lapsed' && (
+                    <div className="mt-4 p-4 bg-orange-50 border border-orange-200 rounded-lg text-orange-700 text-sm">
+                        The approval lapsed before the action could execute. It needs {action.requiredApprovals} fresh approval{action.requiredApprovals === 1 ? '' : 's'} (round {action.approvalRound}).
+                    </div>
+                )}
+
+                {action.expiredAt && (
+                    <div className="mt-4 p-4 bg-white border border-slate-200 rounded-lg">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">
+                            Expired on {new Date(action.expiredAt).toLocaleString()}
+                        </span>
+                        {action.expiryReason && <p className="text-slate-700 italic">"{action.expiryReason}"</p>}
+                    </div>
+                )}
+
+                {action.reversesActionId && (
+                    <div className="mt-4 p-4 bg-white border border-slate-200 rounded-lg text-sm">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Reverses</span>
+                        <Link to={`/actions/${action.reversesActionId}`} className="font-mono text-xs text-blue-600 hover:underline">
+                            {action.reversesActionId}
+                        </Link>
+                    </div>
+                )}
+
+                {action.status === 'blocked' && (
+                    <div className="mt-4 p-4 bg-slate-100 border border-slate-200 rounded-lg text-slate-700 text-sm">
+                        An action this one depends on will never execute, so this action was blocked.
+                    </div>
+                )}
+
+                {isAwaitingApproval && unmetPrerequisites.length > 0 && (
+                    <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-700 text-sm">
+                        Waiting on {unmetPrerequisites.length} prerequisite action{unmetPrerequisites.length === 1 ? '' : 's'}; it cannot execute until they have.
+                    </div>
+                )}
+
+                {[{ title: 'Depends On', links: prerequisites }, { title: 'Required By', links: dependents }]
+                    .filter(group => group.links.length > 0)
+                    .map(group => (
+                        <div key={group.title} className="mt-4 p-4 bg-white border border-slate-200 rounded-lg">
+                            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">{group.title}</span>
+                            <ul className="space-y-1 text-sm">
+                                {group.links.map(link => (
+                                    <li key={link.id} className="flex items-center justify-between gap-4">
+                                        <Link to={`/actions/${link.id}`} className="font-mono text-xs text-blue-600 hover:underline">
+                                            {link.id}
+                                        </Link>
+                                        <span className="text-xs text-slate-500">{link.actionType.replace(/_/g, ' ')}</span>
+                                        <span className="text-xs font-bold uppercase text-slate-600">{link.status.replace(/_/g, ' ')}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+
+                {reversals.length > 0 && (
+                    <div className="mt-4 p-4 bg-white border border-slate-200 rounded-lg">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">Reversals</span>
+                        <ul className="space-y-1 text-sm">
+                            {reversals.map(reversal => (
+                                <li key={reversal.id} className="flex items-center justify-between gap-4">
+                                    <Link to={`/actions/${reversal.id}`} className="font-mono text-xs text-blue-600 hover:underline">
+                                        {reversal.id}
+                                    </Link>
+                                    <span className="text-xs font-bold uppercase text-slate-600">{reversal.status.replace(/_/g, ' ')}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {canReverse && (
+                    <button
+                        onClick={handleReverse}
+                        disabled={isReviewing}
+                        className="mt-4 px-4 py-2 bg-white border border-purple-300 text-purple-700 text-sm font-semibold rounded-lg hover:bg-purple-50 transition-all disabled:opacity-50"
+                    >
+                        Request Reversal
+                    </button>
+                )}
+
+                {canWithdraw && (
+                    <button
+                        onClick={handleWithdraw}
+                        disabled={isReviewing}
+                        className="mt-4 px-4 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-lg hover:bg-slate-100 transition-all disabled:opacity-50"
+                    >
+                        Withdraw Action
+                    </button>
+                )}
+
+                {canReview && (
+                    <button
+                        onClick={handleRequestChanges}
+                        disabled={isReviewing}
+                        className="mt-4 px-4 py-2 bg-white border border-orange-300 text-orange-700 text-sm font-semibold rounded-lg hover:bg-orange-50 transition-all disabled:opacity-50"
+                    >
+                        Request Changes
+                    </button>
+                )}
+
+                {canReview && (
+                    <button
+                        onClick={handlePreview}
+                        disabled={isReviewing || isPreviewing}
+                        className="mt-4 ml-2 px-4 py-2 bg-white border border-blue-300 text-blue-700 text-sm font-semibold rounded-lg hover:bg-blue-50 transition-all disabled:opacity-50"
+                    >
+                        {isPreviewing ? 'Previewing...' : 'Preview Execution'}
+                    </button>
+                )}
+
+                {reviews.length > 0 && (
+                    <div className="mt-4 p-4 bg-white border border-slate-200 rounded-lg">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">Checker Reviews</span>
+                        <ul className="space-y-2 text-sm">
+                            {reviews.map(review => (
+                                <li key={review.id} className="flex items-center justify-between gap-4">
+                                    <span className="text-xs text-slate-400">Rev {review.revision}{review.approvalRound > 1 ? ` · Round ${review.approvalRound}` : ''}</span>
+                                    <span className="font-mono text-xs text-slate-600">{review.checkerId}</span>
+                                    <span className={`text-xs font-bold uppercase ${review.decision === 'approved' ? 'text-green-700' : review.decision === 'changes_requested' ? 'text-orange-700' : 'text-red-700'}`}>
+                                        {review.decision.replace(/_/g, ' ')}
+                                    </span>
+                                    <span className="text-slate-500 flex-1 italic truncate">{review.comment}</span>
+                                    <span className="text-slate-400 text-xs">{new Date(review.createdAt).toLocaleString()}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {revisions.length > 1 && (
+                    <div className="mt-4 p-4 bg-white border border-slate-200 rounded-lg">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">Revision History</span>
+                        <ol className="space-y-3 text-sm">
+                            {revisions.map(revision => (
+                                <li key={revision.id}>
+                                    <div className="flex items-center justify-between gap-4">
+                                        <span className="font-bold text-slate-700">Revision {revision.revision}</span>
+                                        <span className="text-slate-400 text-xs">{new Date(revision.createdAt).toLocaleString()}</span>
+                                    </div>
+                                    {revision.comment && <p className="text-slate-500 italic">"{revision.comment}"</p>}
+                                    {revision.revision > 1 && (
+                                        <ul className="mt-1 space-y-1">
+                                            {revision.changes.length === 0 && <li className="text-slate-400 text-xs">No field changes</li>}
+                                            {revision.changes.map(change => (
+                                                <li key={change.field} className="font-mono text-xs">
+                                                    <span className="text-slate-600">{change.field}: </span>
+                                                    <span className="text-red-600 line-through">{JSON.stringify(change.before)}</span>
+                                                    <span className="text-slate-400"> → </span>
+                                                    <span className="text-green-700">{JSON.stringify(change.after)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
+
+                {action.executionError && (
+                    <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                        <span className="text-xs font-bold text-red-400 uppercase tracking-wider block mb-1">Execution Error</span>
+                        <p className="text-red-700 text-sm">{action.executionError}</p>
+                        {action.status === 'execution_failed' && isChecker && action.makerId !== checkerId && (
+                            <button
+                                onClick={handleRetryExecution}
+                                disabled={isReviewing}
+                                className="mt-3 px-4 py-2 bg-red-600 text-white text-sm font-semibold rounded-lg hover:bg-red-700 transition-all disabled:opacity-50"
+                            >
+                                Retry Execution
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* Error Display */}
@@ -200,7 +601,7 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
             )}
 
             {/* Role-based restriction note */}
-            {!canReview && action.status === 'pending' && (
+            {!canReview && isAwaitingApproval && (
                 <div className="mb-6 p-4 bg-amber-50 border-l-4 border-amber-500 text-amber-700 rounded-r-lg shadow-sm">
                     <div className="font-bold flex items-center gap-2">
                         <span>Review unavailable</span>
@@ -210,15 +611,42 @@ export const DetailViewFactory: React.FC<DetailViewFactoryProps> = ({
                             ? "You cannot review actions that you created yourself."
                             : !isChecker
                                 ? "Only users with the CHECKER role can approve or reject actions."
-                                : "This action is no longer pending."}
+                                : hasVoted
+                                    ? "You have already reviewed this action; it is waiting for other checkers."
+                                    : isOverdue
+                                        ? "This action was not reviewed in time and is about to expire."
+                                        : "This action is no longer pending."}
                     </p>
                 </div>
             )}
 
-            {/* Detail View Component */}
-            <div className="bg-white rounded-xl border border-slate-200 overflow-hidden shadow-sm">
-                <DetailView {...detailViewProps} />
-            </div>
+            {/* Dry-run result, shown above the Approve button it describes */}
+            {preview && canReview && (
+                <div className={`mb-6 p-4 border-l-4 rounded-r-lg shadow-sm ${preview.wouldSucceed ? 'bg-green-50 border-green-500 text-green-800' : 'bg-red-50 border-red-500 text-red-700'}`}>
+                    <div className="font-bold mb-1">
+                        {preview.wouldSucceed ? 'Approving will create:' : 'Approving will fail:'}
+                    </div>
+                    {preview.wouldSucceed ? (
+                        <pre className="text-xs font-mono whitespace-pre-wrap break-all">{JSON.stringify(preview.result, null, 2)}</pre>
+                    ) : (
+                        <p className="text-sm">{preview.error}</p>
+                    )}
+                    <p className="mt-2 text-xs opacity-70">Preview of revision {preview.revision}; nothing was saved.</p>
+                </div>
+            )}
+
+            {/* Detail View Component, or the prefilled form when the maker is asked for changes */}
+            {canResubmit ? (
+                <CreateForm
+                    initialData={action.payload}
+                    onSubmit={handleResubmit}
+                    onCancel={onReviewComplete}
+                />
+            ) : (
+                <div className="bg-white rounded-xl border border-slate-200 overflow-hidden shadow-sm">
+                    <DetailView {...detailViewProps} />
+                </div>
+            )}
         </div>
     );
 };
@@ -8,24 +8,103 @@ function getAuthHeaders() {
     };
 }
 
+export type WorkflowActionStatus =
+    | 'pending'
+    | 'approved'
+    | 'rejected'
+    | 'changes_requested'
+    | 'approved_scheduled'
+    | 'executing'
+    | 'executed'
+    | 'execution_failed'
+    | 'withdrawn'
+    | 'expired'
+    | 'approval_lapsed'
+    | 'reversed'
+    | 'blocked';
+
+export interface WorkflowActionReview {
+    id: string;
+    actionId: string;
+    revision: number;
+    approvalRound: number;
+    checkerId: string;
+    decision: 'approved' | 'rejected' | 'changes_requested';
+    comment?: string;
+    createdAt: string;
+}
+
+export interface PayloadChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface WorkflowActionRevision {
+    id: string;
+    actionId: string;
+    revision: number;
+    payload: any;
+    changes: PayloadChange[];
+    submittedBy: string;
+    comment?: string;
+    createdAt: string;
+}
+
+// Actions linked to an action through dependencies; an edge points from the dependent to its prerequisite
+export interface DependencyGraph {
+    nodes: { id: string; actionType: string; status: WorkflowActionStatus }[];
+    edges: { actionId: string; dependsOnActionId: string }[];
+}
+
 export interface WorkflowAction {
     id: string;
     actionType: string;
-    status: 'pending' | 'approved' | 'rejected';
+    status: WorkflowActionStatus;
     payload: any;
+    payloadHash?: string;
+    revision: number;
     makerId: string;
+    requiredApprovals: number;
+    approvalRound: number;
+    approvalExpiresAt?: string;
+    reviews?: WorkflowActionReview[];
+    revisions?: WorkflowActionRevision[];
     checkerId?: string;
     reviewComment?: string;
     reviewedAt?: string;
+    executionResult?: any;
+    executionError?: string;
+    effectiveAt?: string;
+    executedAt?: string;
+    withdrawnAt?: string;
+    withdrawalReason?: string;
+    expiresAt?: string;
+    expiredAt?: string;
+    expiryReason?: string;
+    reversesActionId?: string;
+    reversals?: WorkflowAction[];
+    reversible?: boolean;
+    dependencyGraph?: DependencyGraph;
     createdAt: string;
     updatedAt: string;
 }
 
+export interface ActionPreview {
+    actionId: string;
+    revision: number;
+    payloadHash: string | null;
+    wouldSucceed: boolean;
+    result?: any;
+    error?: string;
+}
+
 export interface ActionTypeMetadata {
     actionType: string;
     name: string;
     description: string;
     category: string;
+    creatable?: boolean;
 }
 
 export interface PaginatedResponse<T> {
@@ -63,20 +142,29 @@ export async function getActionTypes(): Promise<ActionTypeMetadata[]> {
 }
 
 /**
- * Create a new workflow action
+ * Create a new workflow action (the maker is the logged-in user).
+ * Sending the same idempotency key again returns the original action instead of a duplicate.
+ * With an effective date, approval schedules the action instead of executing it at once.
+ * Actions listed in dependsOn must have executed before this one can.
  */
 export async function createAction(
     actionType: string,
     payload: any,
-    makerId: string
+    idempotencyKey?: string,
+    effectiveAt?: string,
+    dependsOn?: string[]
 ): Promise<WorkflowAction> {
     const response = await fetch(`${API_URL}/api/workflow/actions`, {
         method: 'POST',
-        headers: getAuthHeaders(),
+        headers: {
+            ...getAuthHeaders(),
+            ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        },
         body: JSON.stringify({
             actionType,
             payload,
-            makerId,
+            effectiveAt,
+            dependsOn,
         }),
     });
 
@@ -93,7 +181,8 @@ export async function createAction(
  * List workflow actions with optional filters
  */
 export async function listActions(filters?: {
-    status?: 'pending' | 'approved' | 'rejected';
+    status?: WorkflowActionStatus;
+    excludeStatus?: WorkflowActionStatus[];
     actionType?: string;
     page?: number;
     limit?: number;
@@ -101,6 +190,7 @@ export async function listActions(filters?: {
     const params = new URLSearchParams();
 
     if (filters?.status) params.append('status', filters.status);
+    if (filters?.excludeStatus?.length) params.append('excludeStatus', filters.excludeStatus.join(','));
     if (filters?.actionType) params.append('actionType', filters.actionType);
     if (filters?.page) params.append('page', filters.page.toString());
     if (filters?.limit) params.append('limit', filters.limit.toString());
@@ -134,21 +224,21 @@ export async function getActionById(actionId: string): Promise<WorkflowAction> {
 }
 
 /**
- * Review a workflow action (approve or reject)
+ * Review a workflow action (approve, reject or request changes)
  */
 export async function reviewAction(
     actionId: string,
-    status: 'approved' | 'rejected',
-    checkerId: string,
-    reviewComment?: string
+    status: 'approved' | 'rejected' | 'changes_requested',
+    reviewComment?: string,
+    payloadHash?: string
 ): Promise<{ action: WorkflowAction; executionResult?: any }> {
     const response = await fetch(`${API_URL}/api/workflow/actions/${actionId}/review`, {
         method: 'POST',
         headers: getAuthHeaders(),
         body: JSON.stringify({
             status,
-            checkerId,
             reviewComment,
+            payloadHash,
         }),
     });
 
@@ -160,3 +250,117 @@ export async function reviewAction(
 
     return data.data;
 }
+
+/**
+ * Re-run the handler for an action whose execution failed
+ */
+export async function retryExecution(
+    actionId: string
+): Promise<{ action: WorkflowAction; executionResult?: any; attempt: number }> {
+    const response = await fetch(`${API_URL}/api/workflow/actions/${actionId}/retry-execution`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+    });
+
+    const data: ApiResponse<{ action: WorkflowAction; executionResult?: any; attempt: number }> = await response.json();
+
+    if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to retry execution');
+    }
+
+    return data.data;
+}
+
+/**
+ * Withdraw a pending action (original maker only)
+ */
+export async function withdrawAction(
+    actionId: string,
+    reason?: string
+): Promise<{ action: WorkflowAction }> {
+    const response = await fetch(`${API_URL}/api/workflow/actions/${actionId}/withdraw`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+            reason,
+        }),
+    });
+
+    const data: ApiResponse<{ action: WorkflowAction }> = await response.json();
+
+    if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to withdraw action');
+    }
+
+    return data.data;
+}
+
+/**
+ * Resubmit an action returned with changes requested (original maker only)
+ */
+export async function resubmitAction(
+    actionId: string,
+    payload: any,
+    comment?: string
+): Promise<{ action: WorkflowAction }> {
+    const response = await fetch(`${API_URL}/api/workflow/actions/${actionId}/resubmit`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+            payload,
+            comment,
+        }),
+    });
+
+    const data: ApiResponse<{ action: WorkflowAction }> = await response.json();
+
+    if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to resubmit action');
+    }
+
+    return data.data;
+}
+
+/**
+ * Dry-run the action's handler; nothing is persisted
+ */
+export async function previewAction(actionId: string): Promise<ActionPreview> {
+    const response = await fetch(`${API_URL}/api/workflow/actions/${actionId}/preview`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+    });
+
+    const data: ApiResponse<ActionPreview> = await response.json();
+
+    if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to preview action');
+    }
+
+    return data.data;
+}
+
+/**
+ * Ask for an executed action to be undone; the reversal is a new action that needs approval
+ */
+export async function reverseAction(
+    actionId: string,
+    reason: string,
+    idempotencyKey?: string
+): Promise<WorkflowAction> {
+    const response = await fetch(`${API_URL}/api/workflow/actions/${actionId}/reverse`, {
+        method: 'POST',
+        headers: {
+            ...getAuthHeaders(),
+            ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        },
+        body: JSON.stringify({ reason }),
+    });
+
+    const data: ApiResponse<WorkflowAction> = await response.json();
+
+    if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to reverse action');
+    }
+
+    return data.data;
+}
@@ -0,0 +1,27 @@
+const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+    if (value !== null && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return Object.fromEntries(
+            Object.keys(record)
+                .filter(key => record[key] !== undefined)
+                .sort()
+                .map(key => [key, normalize(record[key])])
+        );
+    }
+    return value;
+};
+
+/**
+ * SHA-256 of the payload as serialized by the backend (sorted-key JSON),
+ * sent with a review to prove which payload the checker actually saw
+ */
+export async function hashPayload(payload: unknown): Promise<string> {
+    const bytes = new TextEncoder().encode(JSON.stringify(normalize(payload)) ?? 'null');
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
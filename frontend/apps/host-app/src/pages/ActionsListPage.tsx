@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import {
     listActions,
     WorkflowAction,
+    WorkflowActionStatus,
     getActionTypes,
     ActionTypeMetadata
 } from '../lib/api';
@@ -15,12 +16,20 @@ import {
     AlertCircle,
     CheckCircle2,
     Clock,
-    XCircle
+    XCircle,
+    Undo2,
+    PencilLine,
+    CalendarClock,
+    Hourglass,
+    RotateCcw,
+    Ban
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
 
 export const ActionsListPage: React.FC = () => {
     const navigate = useNavigate();
+    const { isChecker } = useAuth();
 
     const [actions, setActions] = useState<WorkflowAction[]>([]);
     const [actionTypes, setActionTypes] = useState<ActionTypeMetadata[]>([]);
@@ -28,7 +37,7 @@ export const ActionsListPage: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
 
     // Filters
-    const [statusFilter, setStatusFilter] = useState<'pending' | 'approved' | 'rejected' | ''>('');
+    const [statusFilter, setStatusFilter] = useState<WorkflowActionStatus | ''>('');
     const [actionTypeFilter, setActionTypeFilter] = useState<string>('');
     const [page, setPage] = useState(1);
     const [totalPages, setTotalPages] = useState(1);
@@ -59,6 +68,8 @@ export const ActionsListPage: React.FC = () => {
         try {
             const filters: any = { page, limit };
             if (statusFilter) filters.status = statusFilter;
+            // Withdrawn, returned and expired actions don't need a checker, so keep them out of the default queue
+            else if (isChecker) filters.excludeStatus = ['withdrawn', 'changes_requested', 'expired', 'blocked'];
             if (actionTypeFilter) filters.actionType = actionTypeFilter;
 
             const response = await listActions(filters);
@@ -88,18 +99,58 @@ export const ActionsListPage: React.FC = () => {
 
     const getStatusStyles = (status: string) => {
         switch (status) {
+            case 'executed':
             case 'approved': return {
                 bg: 'bg-green-50',
                 text: 'text-green-700',
                 border: 'border-green-200',
                 icon: CheckCircle2
             };
+            case 'approved_scheduled': return {
+                bg: 'bg-blue-50',
+                text: 'text-blue-700',
+                border: 'border-blue-200',
+                icon: CalendarClock
+            };
+            case 'reversed':
+            case 'withdrawn': return {
+                bg: 'bg-slate-50',
+                text: 'text-slate-500',
+                border: 'border-slate-200',
+                icon: Undo2
+            };
+            case 'approval_lapsed': return {
+                bg: 'bg-amber-50',
+                text: 'text-amber-700',
+                border: 'border-amber-200',
+                icon: RotateCcw
+            };
+            case 'expired': return {
+                bg: 'bg-slate-50',
+                text: 'text-slate-500',
+                border: 'border-slate-200',
+                icon: Hourglass
+            };
+            case 'blocked': return {
+                bg: 'bg-slate-50',
+                text: 'text-slate-500',
+                border: 'border-slate-200',
+                icon: Ban
+            };
+            case 'changes_requested': return {
+                bg: 'bg-orange-50',
+                text: 'text-orange-700',
+                border: 'border-orange-200',
+                icon: PencilLine
+            };
+            case 'execution_failed':
             case 'rejected': return {
                 bg: 'bg-red-50',
                 text: 'text-red-700',
                 border: 'border-red-200',
                 icon: XCircle
             };
+            case 'executing':
             case 'pending': return {
                 bg: 'bg-amber-50',
                 text: 'text-amber-700',
@@ -160,8 +211,16 @@ export const ActionsListPage: React.FC = () => {
                         >
                             <option value="">All Statuses</option>
                             <option value="pending">Pending</option>
-                            <option value="approved">Approved</option>
+                            <option value="changes_requested">Changes Requested</option>
+                            <option value="approved_scheduled">Scheduled</option>
+                            <option value="approval_lapsed">Approval Lapsed</option>
+                            <option value="executed">Executed</option>
+                            <option value="execution_failed">Execution Failed</option>
                             <option value="rejected">Rejected</option>
+                            <option value="withdrawn">Withdrawn</option>
+                            <option value="expired">Expired</option>
+                            <option value="reversed">Reversed</option>
+                            <option value="blocked">Blocked</option>
                         </select>
                         <Clock className="absolute right-3 top-2.5 text-slate-400 pointer-events-none" size={18} />
                     </div>
@@ -226,7 +285,7 @@ export const ActionsListPage: React.FC = () => {
                                             <td className="px-6 py-4">
                                                 <div className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold border ${status.bg} ${status.text} ${status.border}`}>
                                                     <StatusIcon size={14} />
-                                                    <span className="capitalize">{action.status}</span>
+                                                    <span className="capitalize">{action.status.replace(/_/g, ' ')}</span>
                                                 </div>
                                             </td>
                                             <td className="px-6 py-4">
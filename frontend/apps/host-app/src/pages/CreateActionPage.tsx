@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { CreateFormFactory } from '../components/WorkflowFactory';
 import { getActionTypes, ActionTypeMetadata } from '../lib/api';
-import { useAuth } from '../context/AuthContext';
 import { useNavigate } from 'react-router-dom';
 
 export const CreateActionPage: React.FC = () => {
@@ -12,10 +11,6 @@ export const CreateActionPage: React.FC = () => {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
-    const { user } = useAuth();
-    const makerId = user?.id || 'INVALID_MAKER_ID';
-    
-
     useEffect(() => {
         loadActionTypes();
     }, []);
@@ -26,7 +21,7 @@ export const CreateActionPage: React.FC = () => {
 
         try {
             const types = await getActionTypes();
-            setActionTypes(types);
+            setActionTypes(types.filter(type => type.creatable !== false));
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Failed to load action types';
             setError(errorMessage);
@@ -119,7 +114,6 @@ export const CreateActionPage: React.FC = () => {
 
                     <CreateFormFactory
                         actionType={selectedActionType}
-                        makerId={makerId}
                         onSuccess={handleSuccess}
                         onCancel={handleCancel}
                     />
@@ -12,15 +12,17 @@ import {
     DollarSign
 } from 'lucide-react';
 
-export const CreatePromotionForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel }) => {
+export const CreatePromotionForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel, initialData }) => {
+    const initial = (initialData ?? {}) as Partial<Record<'code' | 'name' | 'description' | 'discountType' | 'discountValue' | 'startDate' | 'endDate', string>>;
     const [formData, setFormData] = useState({
-        code: '',
-        name: '',
-        description: '',
-        discountType: 'percentage',
-        discountValue: '',
-        startDate: '',
-        endDate: '',
+        code: initial.code ?? '',
+        name: initial.name ?? '',
+        description: initial.description ?? '',
+        discountType: initial.discountType ?? 'percentage',
+        discountValue: initial.discountValue ?? '',
+        // Stored payloads hold ISO timestamps; date inputs need yyyy-mm-dd
+        startDate: initial.startDate?.slice(0, 10) ?? '',
+        endDate: initial.endDate?.slice(0, 10) ?? '',
     });
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
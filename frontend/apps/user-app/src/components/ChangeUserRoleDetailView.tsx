@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { DetailViewProps } from 'shared-types';
+import {
+    UserCog,
+    ArrowRight,
+    CheckCircle,
+    XCircle
+} from 'lucide-react';
+
+interface ChangeUserRolePayload {
+    userId: string;
+    role: string;
+    reason: string;
+    previousRole?: string;
+}
+
+export const ChangeUserRoleDetailView: React.FC<DetailViewProps> = ({
+    isChecker,
+    data,
+    status,
+    onApprove,
+    onReject,
+}) => {
+    const [rejectReason, setRejectReason] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const payload = data as ChangeUserRolePayload;
+    const canReview = status === 'PENDING' && isChecker;
+
+    const handleApprove = async () => {
+        setIsProcessing(true);
+        try {
+            await onApprove();
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!rejectReason.trim()) return;
+
+        setIsProcessing(true);
+        try {
+            await onReject(rejectReason);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    return (
+        <div className="bg-white">
+            <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-indigo-100 text-indigo-600">
+                    <UserCog size={20} />
+                </div>
+                <h3 className="text-lg font-bold text-slate-800">Change User Role</h3>
+            </div>
+
+            <div className="p-6 space-y-4 text-sm">
+                <div>
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">User ID</span>
+                    <span className="font-mono text-slate-700">{payload.userId}</span>
+                </div>
+                <div>
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Role</span>
+                    <div className="flex items-center gap-2 font-semibold">
+                        <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-600">{payload.previousRole ?? '—'}</span>
+                        <ArrowRight size={14} className="text-slate-400" />
+                        <span className="px-2 py-0.5 rounded bg-indigo-100 text-indigo-700">{payload.role}</span>
+                    </div>
+                </div>
+                <div>
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Reason</span>
+                    <p className="text-slate-700 italic">"{payload.reason}"</p>
+                </div>
+                <p className="text-slate-500">
+                    Approving signs the user out; the new role takes effect the next time they sign in.
+                </p>
+            </div>
+
+            {canReview && (
+                <div className="p-6 bg-slate-50 border-t border-slate-100 space-y-3">
+                    <textarea
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        className="w-full p-3 bg-white border border-slate-200 rounded-lg text-sm min-h-[80px]"
+                        placeholder="Reason for rejecting the request..."
+                        disabled={isProcessing}
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            onClick={handleApprove}
+                            disabled={isProcessing}
+                            className="flex items-center gap-2 px-5 py-2.5 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 transition-all disabled:opacity-50"
+                        >
+                            <CheckCircle size={18} />
+                            Approve
+                        </button>
+                        <button
+                            onClick={handleReject}
+                            disabled={isProcessing || !rejectReason.trim()}
+                            className="flex items-center gap-2 px-5 py-2.5 border border-red-300 text-red-600 rounded-lg font-bold hover:bg-red-50 transition-all disabled:opacity-50"
+                        >
+                            <XCircle size={18} />
+                            Reject
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { CreateFormProps } from 'shared-types';
+import {
+    UserCog,
+    Hash,
+    ShieldCheck,
+    FileText,
+    Send,
+    X,
+    AlertCircle
+} from 'lucide-react';
+
+type UserRole = 'MAKER' | 'CHECKER';
+
+export const ChangeUserRoleForm: React.FC<CreateFormProps> = ({
+    onSubmit,
+    onCancel,
+    initialData,
+}) => {
+    const initial = (initialData ?? {}) as Partial<{ userId: string; role: UserRole; reason: string }>;
+    const [formData, setFormData] = useState({
+        userId: initial.userId ?? '',
+        role: initial.role ?? 'CHECKER',
+        reason: initial.reason ?? '',
+    });
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const validateForm = (): boolean => {
+        const newErrors: Record<string, string> = {};
+
+        if (!formData.userId) {
+            newErrors.userId = 'User ID is required';
+        } else if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(formData.userId)) {
+            newErrors.userId = 'Invalid user ID format';
+        }
+
+        if (!formData.reason.trim()) {
+            newErrors.reason = 'A reason is required';
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!validateForm()) {
+            return;
+        }
+
+        setIsSubmitting(true);
+
+        try {
+            await onSubmit({
+                actionType: 'change_user_role',
+                userId: formData.userId,
+                role: formData.role,
+                reason: formData.reason,
+            });
+        } catch (error) {
+            console.error('Error submitting form:', error);
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleChange = (field: string, value: string) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        if (errors[field]) {
+            setErrors(prev => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm max-w-lg mx-auto">
+            <div className="px-8 py-6 bg-slate-50 border-b border-slate-100">
+                <div className="flex items-center gap-3 mb-1">
+                    <div className="p-2 bg-indigo-600 text-white rounded-lg">
+                        <UserCog size={20} />
+                    </div>
+                    <h2 className="text-xl font-bold text-slate-800">Change User Role</h2>
+                </div>
+                <p className="text-sm text-slate-500">
+                    Once approved, the new role applies the next time the user signs in.
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                {/* User ID Field */}
+                <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <Hash size={12} />
+                        User ID <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                        type="text"
+                        value={formData.userId}
+                        onChange={(e) => handleChange('userId', e.target.value)}
+                        className={`w-full px-4 py-2.5 bg-slate-50 border ${errors.userId ? 'border-red-300 bg-red-50/30' : 'border-slate-200'} rounded-xl text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all placeholder:text-slate-300`}
+                        placeholder="e.g. 3f2b8c1e-..."
+                        disabled={isSubmitting}
+                    />
+                    {errors.userId && (
+                        <span className="flex items-center gap-1.5 text-xs text-red-500 font-medium">
+                            <AlertCircle size={12} />
+                            {errors.userId}
+                        </span>
+                    )}
+                </div>
+
+                {/* Role Field */}
+                <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <ShieldCheck size={12} />
+                        New Role <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                        value={formData.role}
+                        onChange={(e) => handleChange('role', e.target.value)}
+                        className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all"
+                        disabled={isSubmitting}
+                    >
+                        <option value="CHECKER">Checker</option>
+                        <option value="MAKER">Maker</option>
+                    </select>
+                </div>
+
+                {/* Reason Field */}
+                <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <FileText size={12} />
+                        Reason <span className="text-red-500">*</span>
+                    </label>
+                    <textarea
+                        value={formData.reason}
+                        onChange={(e) => handleChange('reason', e.target.value)}
+                        className={`w-full px-4 py-2.5 bg-slate-50 border ${errors.reason ? 'border-red-300 bg-red-50/30' : 'border-slate-200'} rounded-xl text-sm min-h-[100px] focus:outline-none focus:ring-2 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all placeholder:text-slate-300`}
+                        placeholder="e.g. Joined the operations review team"
+                        disabled={isSubmitting}
+                    />
+                    {errors.reason && (
+                        <span className="flex items-center gap-1.5 text-xs text-red-500 font-medium">
+                            <AlertCircle size={12} />
+                            {errors.reason}
+                        </span>
+                    )}
+                </div>
+
+                {/* Action Buttons */}
+                <div className="flex items-center gap-3 pt-6 border-t border-slate-100">
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-600/20 active:scale-95 disabled:opacity-50"
+                    >
+                        {isSubmitting ? (
+                            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        ) : (
+                            <>
+                                <Send size={18} />
+                                Submit for Review
+                            </>
+                        )}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        disabled={isSubmitting}
+                        className="px-6 py-3 bg-white border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-all active:scale-95 disabled:opacity-50 flex items-center gap-2"
+                    >
+                        <X size={18} />
+                        Cancel
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
@@ -10,11 +10,12 @@ import {
     AlertCircle
 } from 'lucide-react';
 
-export const CreateUserForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel }) => {
+export const CreateUserForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel, initialData }) => {
+    const initial = (initialData ?? {}) as Partial<Record<'email' | 'username' | 'fullName', string>>;
     const [formData, setFormData] = useState({
-        email: '',
-        username: '',
-        fullName: '',
+        email: initial.email ?? '',
+        username: initial.username ?? '',
+        fullName: initial.fullName ?? '',
     });
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
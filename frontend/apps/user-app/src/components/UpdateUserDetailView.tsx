@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { DetailViewProps } from 'shared-types';
+import {
+    UserPen,
+    ArrowRight,
+    Clock,
+    CheckCircle,
+    XCircle,
+    MessageSquare,
+    AlertTriangle
+} from 'lucide-react';
+
+interface UserChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+interface UpdateUserPayload {
+    userId: string;
+    email?: string;
+    username?: string;
+    fullName?: string;
+    // Captured by the backend when the update was submitted
+    before?: { email: string; username: string; fullName: string | null; updatedAt: string };
+    changes?: UserChange[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    email: 'Email Address',
+    username: 'Username',
+    fullName: 'Full Name',
+};
+
+const formatValue = (value: unknown) =>
+    value === null || value === undefined || value === '' ? <span className="italic text-slate-400">empty</span> : String(value);
+
+export const UpdateUserDetailView: React.FC<DetailViewProps> = ({
+    isChecker,
+    data,
+    status,
+    onApprove,
+    onReject,
+}) => {
+    const [reviewComment, setReviewComment] = useState('');
+    const [showRejectDialog, setShowRejectDialog] = useState(false);
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const payload = data as UpdateUserPayload;
+    const changes = payload.changes ?? [];
+
+    const handleApprove = async () => {
+        setIsProcessing(true);
+        try {
+            await onApprove();
+        } catch (error) {
+            console.error('Error approving:', error);
+            setIsProcessing(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!reviewComment.trim()) {
+            return;
+        }
+
+        setIsProcessing(true);
+        try {
+            await onReject(reviewComment);
+        } catch (error) {
+            console.error('Error rejecting:', error);
+            setIsProcessing(false);
+        }
+    };
+
+    const canReview = status === 'PENDING' && isChecker;
+
+    return (
+        <div className="bg-white">
+            {/* Header section */}
+            <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-indigo-100 text-indigo-600 rounded-lg">
+                        <UserPen size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">User Update</h3>
+                        <p className="font-mono text-xs text-slate-500">{payload.userId}</p>
+                    </div>
+                </div>
+                {status !== 'PENDING' && (
+                    <div className={`px-2.5 py-1 rounded-full text-xs font-bold border flex items-center gap-1.5 ${status === 'APPROVED'
+                            ? 'bg-green-50 text-green-700 border-green-200'
+                            : 'bg-red-50 text-red-700 border-red-200'
+                        }`}>
+                        {status === 'APPROVED' ? <CheckCircle size={14} /> : <XCircle size={14} />}
+                        <span className="capitalize">{status.toLowerCase()}</span>
+                    </div>
+                )}
+            </div>
+
+            {/* Old vs new values */}
+            <div className="p-6 space-y-4">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-wider">
+                            <th className="pb-2">Field</th>
+                            <th className="pb-2">Current</th>
+                            <th className="pb-2"></th>
+                            <th className="pb-2">Proposed</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {changes.map(change => (
+                            <tr key={change.field}>
+                                <td className="py-3 font-semibold text-slate-700">{FIELD_LABELS[change.field] ?? change.field}</td>
+                                <td className="py-3 text-red-700 line-through decoration-red-300">{formatValue(change.before)}</td>
+                                <td className="py-3 text-slate-300"><ArrowRight size={16} /></td>
+                                <td className="py-3 text-green-700 font-medium">{formatValue(change.after)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {payload.before && (
+                    <div className="flex items-center gap-2 text-xs text-slate-500">
+                        <Clock size={14} />
+                        Current values as of {new Date(payload.before.updatedAt).toLocaleString()}. The update fails if the user changes before it executes.
+                    </div>
+                )}
+            </div>
+
+            {/* Review Section */}
+            {canReview && (
+                <div className="mt-2 p-6 bg-slate-50 border-t border-slate-100">
+                    <div className="flex items-center gap-2 mb-4">
+                        <MessageSquare size={18} className="text-slate-400" />
+                        <h4 className="font-bold text-slate-700 uppercase text-xs tracking-wider">Compliance Review</h4>
+                    </div>
+
+                    <div className="space-y-4">
+                        <textarea
+                            value={reviewComment}
+                            onChange={(e) => setReviewComment(e.target.value)}
+                            className="w-full p-4 bg-white border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all min-h-[100px] shadow-sm resize-none"
+                            placeholder="Add compliance notes or reason for rejection..."
+                            disabled={isProcessing}
+                        />
+
+                        <div className="flex flex-wrap gap-3">
+                            <button
+                                onClick={handleApprove}
+                                disabled={isProcessing}
+                                className="flex-1 md:flex-initial flex items-center justify-center gap-2 px-8 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all shadow-md shadow-indigo-600/10 disabled:opacity-50 active:scale-95"
+                            >
+                                {isProcessing ? (
+                                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                                ) : (
+                                    <>
+                                        <CheckCircle size={18} />
+                                        Approve Changes
+                                    </>
+                                )}
+                            </button>
+
+                            {!showRejectDialog ? (
+                                <button
+                                    onClick={() => setShowRejectDialog(true)}
+                                    disabled={isProcessing}
+                                    className="flex-1 md:flex-initial flex items-center justify-center gap-2 px-6 py-2.5 border-2 border-red-600 text-red-600 rounded-lg font-bold hover:bg-red-50 transition-all disabled:opacity-50 active:scale-95"
+                                >
+                                    <XCircle size={18} />
+                                    Reject
+                                </button>
+                            ) : (
+                                <div className="flex-1 md:flex-initial flex items-center gap-2">
+                                    <button
+                                        onClick={handleReject}
+                                        disabled={isProcessing || !reviewComment.trim()}
+                                        className="flex-1 md:flex-initial flex items-center justify-center gap-2 px-8 py-2.5 bg-red-600 text-white rounded-xl font-bold hover:bg-red-700 transition-all disabled:opacity-50 active:scale-95"
+                                    >
+                                        Confirm Rejection
+                                    </button>
+                                    <button
+                                        onClick={() => setShowRejectDialog(false)}
+                                        disabled={isProcessing}
+                                        className="px-4 py-2.5 text-slate-500 font-medium hover:text-slate-800 transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+
+                        {!reviewComment.trim() && showRejectDialog && (
+                            <div className="flex items-center gap-2 text-red-500 text-xs font-medium animate-pulse">
+                                <AlertTriangle size={14} />
+                                Please specify the reason for rejection in the comments above.
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
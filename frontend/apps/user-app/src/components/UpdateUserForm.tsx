@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { CreateFormProps } from 'shared-types';
+import {
+    UserPen,
+    Hash,
+    Mail,
+    AtSign,
+    User,
+    Send,
+    X,
+    AlertCircle
+} from 'lucide-react';
+
+type UpdateField = 'email' | 'username' | 'fullName';
+
+export const UpdateUserForm: React.FC<CreateFormProps> = ({ onSubmit, onCancel, initialData }) => {
+    const initial = (initialData ?? {}) as Partial<Record<'userId' | UpdateField, string>>;
+    const [formData, setFormData] = useState({
+        userId: initial.userId ?? '',
+        email: initial.email ?? '',
+        username: initial.username ?? '',
+        fullName: initial.fullName ?? '',
+    });
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const validateForm = (): boolean => {
+        const newErrors: Record<string, string> = {};
+
+        if (!formData.userId) {
+            newErrors.userId = 'User ID is required';
+        } else if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(formData.userId)) {
+            newErrors.userId = 'Invalid user ID format';
+        }
+
+        if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
+            newErrors.email = 'Invalid email format';
+        }
+
+        if (formData.username && formData.username.length < 3) {
+            newErrors.username = 'Username must be at least 3 characters';
+        }
+
+        if (!formData.email && !formData.username && !formData.fullName) {
+            newErrors.fields = 'Enter at least one new value';
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!validateForm()) {
+            return;
+        }
+
+        setIsSubmitting(true);
+
+        try {
+            // Fields left empty keep their current value
+            const payload = {
+                actionType: 'update_user' as const,
+                userId: formData.userId,
+                ...(formData.email && { email: formData.email }),
+                ...(formData.username && { username: formData.username }),
+                ...(formData.fullName && { fullName: formData.fullName }),
+            };
+
+            await onSubmit(payload);
+        } catch (error) {
+            console.error('Error submitting form:', error);
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleChange = (field: string, value: string) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        if (errors[field] || errors.fields) {
+            setErrors(prev => ({ ...prev, [field]: '', fields: '' }));
+        }
+    };
+
+    const fields: { field: UpdateField; label: string; icon: React.ReactNode; type: string; placeholder: string }[] = [
+        { field: 'email', label: 'New Email Address', icon: <Mail size={12} />, type: 'email', placeholder: 'Leave empty to keep the current email' },
+        { field: 'username', label: 'New Username', icon: <AtSign size={12} />, type: 'text', placeholder: 'Leave empty to keep the current username' },
+        { field: 'fullName', label: 'New Full Name', icon: <User size={12} />, type: 'text', placeholder: 'Leave empty to keep the current name' },
+    ];
+
+    return (
+        <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm max-w-lg mx-auto">
+            <div className="px-8 py-6 bg-slate-50 border-b border-slate-100">
+                <div className="flex items-center gap-3 mb-1">
+                    <div className="p-2 bg-indigo-600 text-white rounded-lg">
+                        <UserPen size={20} />
+                    </div>
+                    <h2 className="text-xl font-bold text-slate-800">Update User</h2>
+                </div>
+                <p className="text-sm text-slate-500">
+                    The user's current values are captured on submission so the checker can compare them with your changes.
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                {/* User ID Field */}
+                <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <Hash size={12} />
+                        User ID <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                        type="text"
+                        value={formData.userId}
+                        onChange={(e) => handleChange('userId', e.target.value)}
+                        className={`w-full px-4 py-2.5 bg-slate-50 border ${errors.userId ? 'border-red-300 bg-red-50/30' : 'border-slate-200'} rounded-xl text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all placeholder:text-slate-300`}
+                        placeholder="e.g. 3f2b8c1e-..."
+                        disabled={isSubmitting}
+                    />
+                    {errors.userId && (
+                        <span className="flex items-center gap-1.5 text-xs text-red-500 font-medium">
+                            <AlertCircle size={12} />
+                            {errors.userId}
+                        </span>
+                    )}
+                </div>
+
+                {fields.map(({ field, label, icon, type, placeholder }) => (
+                    <div key={field} className="space-y-1.5">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                            {icon}
+                            {label}
+                        </label>
+                        <input
+                            type={type}
+                            value={formData[field]}
+                            onChange={(e) => handleChange(field, e.target.value)}
+                            className={`w-full px-4 py-2.5 bg-slate-50 border ${errors[field] ? 'border-red-300 bg-red-50/30' : 'border-slate-200'} rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all placeholder:text-slate-300`}
+                            placeholder={placeholder}
+                            disabled={isSubmitting}
+                        />
+                        {errors[field] && (
+                            <span className="flex items-center gap-1.5 text-xs text-red-500 font-medium">
+                                <AlertCircle size={12} />
+                                {errors[field]}
+                            </span>
+                        )}
+                    </div>
+                ))}
+
+                {errors.fields && (
+                    <span className="flex items-center gap-1.5 text-xs text-red-500 font-medium">
+                        <AlertCircle size={12} />
+                        {errors.fields}
+                    </span>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex items-center gap-3 pt-6 border-t border-slate-100">
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-600/20 active:scale-95 disabled:opacity-50"
+                    >
+                        {isSubmitting ? (
+                            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        ) : (
+                            <>
+                                <Send size={18} />
+                                Submit for Review
+                            </>
+                        )}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        disabled={isSubmitting}
+                        className="px-6 py-3 bg-white border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-all active:scale-95 disabled:opacity-50 flex items-center gap-2"
+                    >
+                        <X size={18} />
+                        Cancel
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
@@ -1,6 +1,12 @@
 import { WorkflowComponentRegistration } from 'shared-types';
 import { CreateUserForm } from './components/CreateUserForm';
 import { UserDetailView } from './components/UserDetailView';
+import { UpdateUserForm } from './components/UpdateUserForm';
+import { UpdateUserDetailView } from './components/UpdateUserDetailView';
+import { DeactivateUserForm, ReactivateUserForm } from './components/UserStatusForm';
+import { DeactivateUserDetailView, ReactivateUserDetailView } from './components/UserStatusDetailView';
+import { ChangeUserRoleForm } from './components/ChangeUserRoleForm';
+import { ChangeUserRoleDetailView } from './components/ChangeUserRoleDetailView';
 
 export const userWorkflowRegistration: WorkflowComponentRegistration = {
     actionType: 'create_user',
@@ -15,3 +21,59 @@ export const userWorkflowRegistration: WorkflowComponentRegistration = {
         DetailView: UserDetailView,
     },
 };
+
+export const updateUserWorkflowRegistration: WorkflowComponentRegistration = {
+    actionType: 'update_user',
+    metadata: {
+        name: 'Update User',
+        description: "Change an existing user's email, username or full name",
+        category: 'User Management',
+        icon: '✏️',
+    },
+    components: {
+        CreateForm: UpdateUserForm,
+        DetailView: UpdateUserDetailView,
+    },
+};
+
+export const deactivateUserWorkflowRegistration: WorkflowComponentRegistration = {
+    actionType: 'deactivate_user',
+    metadata: {
+        name: 'Deactivate User',
+        description: 'Disable a user so they can no longer sign in',
+        category: 'User Management',
+        icon: '🚫',
+    },
+    components: {
+        CreateForm: DeactivateUserForm,
+        DetailView: DeactivateUserDetailView,
+    },
+};
+
+export const reactivateUserWorkflowRegistration: WorkflowComponentRegistration = {
+    actionType: 'reactivate_user',
+    metadata: {
+        name: 'Reactivate User',
+        description: 'Restore sign-in for a deactivated user',
+        category: 'User Management',
+        icon: '✅',
+    },
+    components: {
+        CreateForm: ReactivateUserForm,
+        DetailView: ReactivateUserDetailView,
+    },
+};
+
+export const changeUserRoleWorkflowRegistration: WorkflowComponentRegistration = {
+    actionType: 'change_user_role',
+    metadata: {
+        name: 'Change User Role',
+        description: 'Promote a maker to checker or move a checker back to maker',
+        category: 'User Management',
+        icon: '🛡️',
+    },
+    components: {
+        CreateForm: ChangeUserRoleForm,
+        DetailView: ChangeUserRoleDetailView,
+    },
+};
@@ -17,6 +17,7 @@ export interface WorkflowComponentRegistration {
 export interface CreateFormProps {
   onSubmit: (data: unknown) => Promise<void>;  // Triggers backend action
   onCancel: () => void;
+  initialData?: unknown;  // Prefills the form when a maker edits a returned action
 }
 
 export interface DetailViewProps {